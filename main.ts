@@ -13,24 +13,117 @@ import {
 	Notice,
 	Modal,
 	setIcon,
-	MarkdownRenderer
+	MarkdownRenderer,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	prepareFuzzySearch,
+	Component,
+	editorInfoField,
+	getLinkpath
 } from 'obsidian';
+import {
+	Extension,
+	RangeSetBuilder,
+	StateEffect
+} from '@codemirror/state';
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	PluginValue,
+	ViewPlugin,
+	ViewUpdate,
+	hoverTooltip
+} from '@codemirror/view';
+
+// Where newly created footnote definitions are placed
+type DefinitionPlacement = 'end-of-document' | 'end-of-section' | 'after-paragraph' | 'notes-heading';
+
+// How an unwrapped footnote's text is set off from the surrounding sentence
+type UnwrapWrapper = 'parentheses' | 'em-dash' | 'none';
+
+// Where the endnote conversion gathers definitions: under the notes heading at the end of the note,
+// under a notes subheading at the end of each H1/H2 section, or back into a plain footnote block
+type EndnoteLayout = 'document' | 'section' | 'footnotes';
+
+// Formats and destinations of a footnote export
+type FootnoteExportFormat = 'csv' | 'json' | 'markdown';
+type FootnoteExportDestination = 'clipboard' | 'note';
+
+// Identifiers of the footnote linter rules
+type LintRuleId = 'empty-footnote' | 'trailing-whitespace' | 'duplicate-adjacent-reference' | 'reference-in-heading' | 'definition-mid-document' | 'unresolved-wikilink';
 
 // Plugin settings interface
 interface FootnotesManagerSettings {
 	openOnStart: boolean;
 	debugMode: boolean;
 	defaultCollapsed: boolean;
+	definitionPlacement: DefinitionPlacement;
+	insertInSequence: boolean;
+	notesHeading: string;
+	notesHeadingSeparator: boolean;
+	sectionNotesHeading: string;
+	chapterNumbering: boolean;
+	chapterHeadingLevel: number;
+	manuscriptIndex: string;
+	unwrapWrapper: UnwrapWrapper;
+	lintRules: Record < LintRuleId, boolean > ;
 }
 
 const DEFAULT_SETTINGS: FootnotesManagerSettings = {
 	openOnStart: true,
 	debugMode: false,
-	defaultCollapsed: true
+	defaultCollapsed: true,
+	definitionPlacement: 'end-of-document',
+	insertInSequence: false,
+	notesHeading: '## Notes',
+	notesHeadingSeparator: false,
+	sectionNotesHeading: '### Notes',
+	chapterNumbering: false,
+	chapterHeadingLevel: 1,
+	manuscriptIndex: '',
+	unwrapWrapper: 'parentheses',
+	lintRules: {
+		'empty-footnote': true,
+		'trailing-whitespace': true,
+		'duplicate-adjacent-reference': true,
+		'reference-in-heading': true,
+		'definition-mid-document': true,
+		'unresolved-wikilink': true
+	}
 }
 
+// Names and descriptions of the linter rules, in the order they appear in settings
+const FOOTNOTE_LINT_RULES: Array < { id: LintRuleId, name: string, description: string } > = [{
+	id: 'empty-footnote',
+	name: 'Empty footnotes',
+	description: 'Footnotes whose definition has no text'
+}, {
+	id: 'trailing-whitespace',
+	name: 'Trailing whitespace',
+	description: 'Footnote definitions with spaces or tabs at the end of a line'
+}, {
+	id: 'duplicate-adjacent-reference',
+	name: 'Duplicate adjacent references',
+	description: 'The same reference written twice in a row, such as [^2][^2]'
+}, {
+	id: 'reference-in-heading',
+	name: 'References in headings',
+	description: 'Footnote references placed inside a heading'
+}, {
+	id: 'definition-mid-document',
+	name: 'Definitions in the middle of the document',
+	description: 'Footnote definitions followed by body text instead of collected at the end. Notes with per-section notes headings are skipped'
+}, {
+	id: 'unresolved-wikilink',
+	name: 'Unresolved wikilinks',
+	description: 'Wikilinks inside footnotes that do not point to an existing note'
+}];
+
 // View type constant
 export const FOOTNOTES_VIEW_TYPE = 'footnotes-manager-view';
+export const FOOTNOTES_AUDIT_VIEW_TYPE = 'footnotes-audit-view';
 
 // Interface for footnote reference data
 interface FootnoteReference {
@@ -61,6 +154,9 @@ interface FootnoteData {
 	isUnreferenced ? : boolean; // NEW: Track unreferenced footnotes
 	isMultiSection ? : boolean; // NEW: Track footnotes that appear in multiple sections
 	appearanceCount ? : number; // NEW: Track how many sections this footnote appears in
+	sectionReferenceIndices ? : number[]; // Indices into references that fall in the section this copy is grouped under
+	isInline ? : boolean; // Inline footnote (`^[text]`) whose definition is its reference
+	duplicateDefinitions ? : FootnoteDefinition[]; // Later definitions of the same label, which renderers ignore
 }
 
 // Interface for header data
@@ -78,6 +174,8 @@ interface FootnoteGroup {
 	parent ? : FootnoteGroup;
 	isCollapsed ? : boolean;
 	isUnreferencedGroup ? : boolean; // NEW: Mark unreferenced group
+	isMissingDefinitionsGroup ? : boolean; // Mark group of references without definitions
+	orphanedReferences ? : OrphanedReference[]; // References listed by the missing definitions group
 }
 
 // Interface for tracking rendered groups
@@ -97,39 +195,543 @@ interface OrphanedReference {
 }
 
 // ADD THIS NEW INTERFACE HERE:
+// How renumbering treats named labels such as [^smith2020]
+type RenumberLabelMode = 'keep-named' | 'named-to-numbers' | 'numbers-to-slugs';
+
 interface RenumberOptions {
 	fixGaps: boolean;
 	removeUnreferenced: boolean;
 	reorderByPosition: boolean;
+	labelMode: RenumberLabelMode;
+	chapterLevel: number | null; // Restart numbering at each heading of this level, null for continuous numbering
+	startNumber ? : number; // First number of continuous numbering, for notes continuing a manuscript
+}
+
+// Interface for the renumbering of one file of a manuscript
+interface ManuscriptFilePlan {
+	file: TFile;
+	plan: RenumberPlan;
+	firstNumber: number;
+	count: number;
+}
+
+// Interface for a line as it reads before and after a planned edit
+interface LineChange {
+	line: number;
+	before: string;
+	after: string;
+}
+
+// Interface for the complete set of edits a renumbering will make, computed before anything is applied
+interface RenumberPlan {
+	options: RenumberOptions;
+	labelChanges: Array < { oldLabel: string, newLabel: string } > ;
+	deletedFootnotes: FootnoteData[];
+	lineChanges: LineChange[];
+	batch: EditBatch;
+}
+
+// Interface for inline footnotes (`^[text]`), which carry their content in place
+interface InlineFootnote {
+	content: string;
+	line: number;
+	startPos: number;
+	endPos: number;
+	fullMatch: string;
+}
+
+// Interface for the footnote problems found in a single document
+interface FootnoteAnalysis {
+	footnotes: FootnoteData[];
+	gaps: string[];
+	unreferencedFootnotes: FootnoteData[];
+	orphanedReferences: OrphanedReference[];
+	duplicateDefinitions: FootnoteDefinition[];
+	isOutOfOrder: boolean;
+	firstOutOfOrder: FootnoteData | null;
+}
+
+// Interface for a single problem reported by the vault-wide audit
+interface FootnoteAuditIssue {
+	kind: 'gap' | 'unreferenced' | 'missing-definition' | 'duplicate-definition' | 'out-of-order';
+	message: string;
+	line: number;
+	footnote ? : FootnoteData;
+}
+
+// Interface for the audit result of one file
+interface FileAuditResult {
+	file: TFile;
+	issues: FootnoteAuditIssue[];
+}
+
+// Interface for an entry in the `[^` autocomplete: an existing footnote, or null for "New footnote…"
+interface FootnoteSuggestion {
+	footnote: FootnoteData | null;
+	score: number;
+}
+
+// Interface for one footnote in an export; reference lines are 1-based
+interface FootnoteExportRow {
+	label: string;
+	content: string;
+	referenceLines: number[];
+	sections: string[];
+	status: 'referenced' | 'unreferenced';
+}
+
+// Interface for a problem reported by the footnote linter, with an optional one-click fix
+interface FootnoteLintProblem {
+	rule: LintRuleId;
+	message: string;
+	line: number;
+	fix ? : {
+		label: string;
+		apply: (batch: EditBatch) => void;
+	};
+}
+
+// Kinds of regions in which footnote syntax is treated as literal text
+type ExcludedRangeKind = 'frontmatter' | 'fenced-code' | 'indented-code' | 'inline-code' | 'math' | 'comment';
+
+// Interface for a region of the document that the footnote parser must ignore
+interface ExcludedRange {
+	kind: ExcludedRangeKind;
+	start: number;
+	end: number;
+}
+
+// Tokenizer-based footnote parser. Builds a map of the regions where `[^x]` is not
+// real footnote syntax (code, math, comments, frontmatter) and only yields
+// references and definitions found outside of them.
+class FootnoteParser {
+	readonly content: string;
+	readonly excludedRanges: ExcludedRange[];
+	private lineStarts: number[];
+
+	constructor(content: string) {
+		this.content = content;
+		this.lineStarts = [0];
+		for (let i = 0; i < content.length; i++) {
+			if (content.charCodeAt(i) === 10) {
+				this.lineStarts.push(i + 1);
+			}
+		}
+		this.excludedRanges = this.buildExcludedRanges();
+	}
+
+	getLineNumber(pos: number): number {
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (this.lineStarts[mid] <= pos) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return low;
+	}
+
+	isExcluded(pos: number): boolean {
+		return this.findExcludedRange(pos) !== null;
+	}
+
+	findExcludedRange(pos: number): ExcludedRange | null {
+		let low = 0;
+		let high = this.excludedRanges.length - 1;
+		while (low <= high) {
+			const mid = (low + high) >> 1;
+			const range = this.excludedRanges[mid];
+			if (pos < range.start) {
+				high = mid - 1;
+			} else if (pos >= range.end) {
+				low = mid + 1;
+			} else {
+				return range;
+			}
+		}
+		return null;
+	}
+
+	getDefinitions(): FootnoteDefinition[] {
+		const definitions: FootnoteDefinition[] = [];
+		const definitionRegex = /^\[\^([\w-]+)\]:[ \t]*(.*)$/gm;
+		let match;
+		while ((match = definitionRegex.exec(this.content)) !== null) {
+			if (this.isExcluded(match.index)) continue;
+
+			const line = this.getLineNumber(match.index);
+			const contentLines = [match[2]];
+
+			// Indented lines (optionally separated by blank lines) continue the definition
+			let endLine = line;
+			for (let j = line + 1; j < this.lineStarts.length; j++) {
+				const text = this.getLine(j);
+				if (text.trim() === '') continue;
+				if (!/^( {4}|\t)/.test(text)) break;
+				endLine = j;
+			}
+			for (let j = line + 1; j <= endLine; j++) {
+				contentLines.push(this.getLine(j).replace(/^( {4}|\t)/, ''));
+			}
+
+			const startPos = match.index;
+			const endPos = endLine === line ? startPos + match[0].length : this.getLineEnd(endLine);
+
+			definitions.push({
+				number: match[1],
+				content: contentLines.map(text => text.trim() === '' ? '' : text).join('\n'),
+				line,
+				startPos,
+				endPos,
+				fullMatch: this.content.substring(startPos, endPos)
+			});
+
+			definitionRegex.lastIndex = Math.max(definitionRegex.lastIndex, endPos);
+		}
+		return definitions;
+	}
+
+	getReferences(): FootnoteReference[] {
+		const references: FootnoteReference[] = [];
+		const referenceRegex = /\[\^([\w-]+)\]/g;
+		let match;
+		while ((match = referenceRegex.exec(this.content)) !== null) {
+			const startPos = match.index;
+			const endPos = startPos + match[0].length;
+			if (this.isExcluded(startPos)) continue;
+
+			// A label at the start of a line followed by ':' is a definition, not a reference
+			const line = this.getLineNumber(startPos);
+			const textBeforeOnLine = this.content.substring(this.lineStarts[line], startPos);
+			if (textBeforeOnLine.trim() === '' && this.content.charAt(endPos) === ':') {
+				continue;
+			}
+
+			references.push({
+				number: match[1],
+				line,
+				startPos,
+				endPos,
+				fullMatch: match[0]
+			});
+		}
+		return references;
+	}
+
+	getInlineFootnotes(): InlineFootnote[] {
+		const inlineFootnotes: InlineFootnote[] = [];
+		const content = this.content;
+		let pos = content.indexOf('^[');
+
+		while (pos !== -1) {
+			if (this.isExcluded(pos) || (pos > 0 && content[pos - 1] === '\\')) {
+				pos = content.indexOf('^[', pos + 2);
+				continue;
+			}
+
+			const endPos = this.findInlineFootnoteEnd(pos + 2);
+			if (endPos === -1) {
+				pos = content.indexOf('^[', pos + 2);
+				continue;
+			}
+
+			inlineFootnotes.push({
+				content: content.substring(pos + 2, endPos - 1),
+				line: this.getLineNumber(pos),
+				startPos: pos,
+				endPos,
+				fullMatch: content.substring(pos, endPos)
+			});
+			pos = content.indexOf('^[', endPos);
+		}
+
+		return inlineFootnotes;
+	}
+
+	// Returns the position after the bracket closing an inline footnote, or -1 if it is unclosed
+	private findInlineFootnoteEnd(from: number): number {
+		const content = this.content;
+		let depth = 1;
+		let pos = from;
+
+		while (pos < content.length) {
+			const excluded = this.findExcludedRange(pos);
+			if (excluded) {
+				pos = excluded.end;
+				continue;
+			}
+
+			const char = content[pos];
+			if (char === '\\') {
+				pos += 2;
+				continue;
+			}
+			if (char === '\n' && this.isBlankLineAt(pos + 1)) {
+				return -1;
+			}
+			if (char === '[') {
+				depth++;
+			} else if (char === ']') {
+				depth--;
+				if (depth === 0) {
+					return pos + 1;
+				}
+			}
+			pos++;
+		}
+
+		return -1;
+	}
+
+	// Inline constructs never span a blank line
+	private isBlankLineAt(lineStart: number): boolean {
+		const lineEnd = this.content.indexOf('\n', lineStart);
+		return this.content.substring(lineStart, lineEnd === -1 ? this.content.length : lineEnd).trim() === '';
+	}
+
+	get lineCount(): number {
+		return this.lineStarts.length;
+	}
+
+	getLineStart(index: number): number {
+		return this.lineStarts[index];
+	}
+
+	getLine(index: number): string {
+		const start = this.lineStarts[index];
+		const end = index + 1 < this.lineStarts.length ? this.lineStarts[index + 1] - 1 : this.content.length;
+		return this.content.substring(start, end).replace(/\r$/, '');
+	}
+
+	getLineEnd(index: number): number {
+		return index + 1 < this.lineStarts.length ? this.lineStarts[index + 1] - 1 : this.content.length;
+	}
+
+	private buildExcludedRanges(): ExcludedRange[] {
+		const blockRanges = this.scanBlockRanges();
+		const ranges: ExcludedRange[] = [];
+
+		// Scan the text between block ranges for inline constructs
+		let cursor = 0;
+		blockRanges.forEach(block => {
+			this.scanInlineRanges(cursor, block.start, ranges);
+			ranges.push(block);
+			cursor = block.end;
+		});
+		this.scanInlineRanges(cursor, this.content.length, ranges);
+
+		return ranges;
+	}
+
+	// Line-based pass: frontmatter, fenced code blocks and indented code blocks
+	private scanBlockRanges(): ExcludedRange[] {
+		const ranges: ExcludedRange[] = [];
+		const lineCount = this.lineStarts.length;
+		let i = 0;
+
+		if (lineCount > 1 && this.getLine(0) === '---') {
+			for (let j = 1; j < lineCount; j++) {
+				const line = this.getLine(j);
+				if (line === '---' || line === '...') {
+					ranges.push({
+						kind: 'frontmatter',
+						start: 0,
+						end: this.getLineEnd(j)
+					});
+					i = j + 1;
+					break;
+				}
+			}
+		}
+
+		// Tracks whether indented lines continue a list item or footnote definition
+		let inContainer = false;
+		let previousBlank = true;
+
+		while (i < lineCount) {
+			const line = this.getLine(i);
+
+			const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+			if (fenceMatch && !(fenceMatch[1][0] === '`' && line.substring(fenceMatch[0].length).includes('`'))) {
+				const fenceChar = fenceMatch[1][0];
+				const fenceLength = fenceMatch[1].length;
+				let endLine = lineCount - 1;
+				for (let j = i + 1; j < lineCount; j++) {
+					const closeMatch = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(this.getLine(j));
+					if (closeMatch && closeMatch[1][0] === fenceChar && closeMatch[1].length >= fenceLength) {
+						endLine = j;
+						break;
+					}
+				}
+				ranges.push({
+					kind: 'fenced-code',
+					start: this.lineStarts[i],
+					end: this.getLineEnd(endLine)
+				});
+				i = endLine + 1;
+				inContainer = false;
+				previousBlank = false;
+				continue;
+			}
+
+			const isBlank = line.trim() === '';
+			const isIndented = /^( {4}|\t)/.test(line);
+
+			if (isIndented && !isBlank && previousBlank && !inContainer) {
+				let endLine = i;
+				for (let j = i + 1; j < lineCount; j++) {
+					const next = this.getLine(j);
+					if (/^( {4}|\t)/.test(next)) {
+						endLine = j;
+					} else if (next.trim() !== '') {
+						break;
+					}
+				}
+				ranges.push({
+					kind: 'indented-code',
+					start: this.lineStarts[i],
+					end: this.getLineEnd(endLine)
+				});
+				i = endLine + 1;
+				previousBlank = false;
+				continue;
+			}
+
+			if (!isBlank && !isIndented) {
+				inContainer = /^\s*([-*+]|\d+[.)])\s/.test(line) || /^\[\^[\w-]+\]:/.test(line);
+			}
+
+			previousBlank = isBlank;
+			i++;
+		}
+
+		return ranges;
+	}
+
+	// Character-based pass between block ranges: comments, math and inline code spans
+	private scanInlineRanges(start: number, end: number, ranges: ExcludedRange[]) {
+		const content = this.content;
+		let pos = start;
+
+		while (pos < end) {
+			const char = content[pos];
+
+			if (char === '<' && content.startsWith('<!--', pos)) {
+				const close = content.indexOf('-->', pos + 4);
+				const rangeEnd = close === -1 || close + 3 > end ? end : close + 3;
+				ranges.push({ kind: 'comment', start: pos, end: rangeEnd });
+				pos = rangeEnd;
+				continue;
+			}
+
+			if (char === '%' && content.startsWith('%%', pos)) {
+				const close = content.indexOf('%%', pos + 2);
+				const rangeEnd = close === -1 || close + 2 > end ? end : close + 2;
+				ranges.push({ kind: 'comment', start: pos, end: rangeEnd });
+				pos = rangeEnd;
+				continue;
+			}
+
+			if (char === '$' && content.startsWith('$$', pos)) {
+				const close = content.indexOf('$$', pos + 2);
+				if (close !== -1 && close + 2 <= end) {
+					ranges.push({ kind: 'math', start: pos, end: close + 2 });
+					pos = close + 2;
+					continue;
+				}
+				pos += 2;
+				continue;
+			}
+
+			if (char === '`') {
+				let runLength = 1;
+				while (content[pos + runLength] === '`') runLength++;
+
+				const closeEnd = this.findClosingBacktickRun(pos + runLength, end, runLength);
+				if (closeEnd !== -1) {
+					ranges.push({ kind: 'inline-code', start: pos, end: closeEnd });
+					pos = closeEnd;
+				} else {
+					pos += runLength;
+				}
+				continue;
+			}
+
+			if (char === '\\') {
+				pos += 2;
+				continue;
+			}
+
+			pos++;
+		}
+	}
+
+	// Returns the end of a backtick run of exactly `runLength`, without crossing a blank line
+	private findClosingBacktickRun(from: number, end: number, runLength: number): number {
+		const content = this.content;
+		let pos = from;
+		while (pos < end) {
+			if (content[pos] === '\n' && this.isBlankLineAt(pos + 1)) {
+				return -1;
+			}
+			if (content[pos] === '`') {
+				let length = 1;
+				while (content[pos + length] === '`') length++;
+				if (length === runLength) {
+					return pos + length;
+				}
+				pos += length;
+				continue;
+			}
+			pos++;
+		}
+		return -1;
+	}
 }
 
 // NEW: Enhanced Renumber Confirmation Modal
 class EnhancedRenumberConfirmationModal extends Modal {
 	plugin: FootnotesManagerPlugin;
-	onConfirm: (options: RenumberOptions) => void;
+	onConfirm: (plan: RenumberPlan) => void;
+	content: string;
 	gaps: string[];
 	unreferencedFootnotes: FootnoteData[];
 	isOutOfOrder: boolean;
+	// First number of the note's continuous numbering, above 1 for notes continuing a manuscript
+	startNumber: number;
 
 	// Checkbox states
 	private fixGapsCheckbox: HTMLInputElement | null = null;
 	private removeUnreferencedCheckbox: HTMLInputElement | null = null;
 	private reorderByPositionCheckbox: HTMLInputElement | null = null;
+	private labelModeSelect: HTMLSelectElement | null = null;
+	private numberingSelect: HTMLSelectElement | null = null;
+
+	private previewContainer: HTMLElement | null = null;
+	// The plan shown in the preview, applied as is on confirm
+	private previewedPlan: RenumberPlan | null = null;
 
 	constructor(
 		app: App,
 		plugin: FootnotesManagerPlugin,
+		content: string,
 		gaps: string[],
 		unreferencedFootnotes: FootnoteData[],
 		isOutOfOrder: boolean,
-		onConfirm: (options: RenumberOptions) => void
+		startNumber: number,
+		onConfirm: (plan: RenumberPlan) => void
 	) {
 		super(app);
 		this.plugin = plugin;
 		this.onConfirm = onConfirm;
+		this.content = content;
 		this.gaps = gaps;
 		this.unreferencedFootnotes = unreferencedFootnotes;
 		this.isOutOfOrder = isOutOfOrder;
+		this.startNumber = startNumber;
 	}
 
 	onOpen() {
@@ -246,27 +848,94 @@ class EnhancedRenumberConfirmationModal extends Modal {
 		}
 
 		if (!hasIssues) {
-			contentEl.createEl('p', {
-				text: 'No footnote issues found.',
+			issuesContainer.createEl('p', {
+				text: 'No numbering issues found. You can still convert footnote labels below.',
 				cls: 'renumber-no-issues'
 			});
+		}
 
-			const closeBtn = contentEl.createEl('button', {
-				text: 'Close',
-				cls: 'renumber-close-btn'
+		// Label handling: named labels are kept unless explicitly converted
+		const labelSection = issuesContainer.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const labelContainer = labelSection.createEl('label', {
+			cls: 'renumber-checkbox-container'
+		});
+		labelContainer.createEl('span', {
+			text: 'Label handling: ',
+			cls: 'renumber-checkbox-label'
+		});
+		const labelModeSelect = labelContainer.createEl('select', {
+			cls: 'dropdown renumber-label-mode'
+		});
+		const labelModes: Array < { value: RenumberLabelMode, text: string } > = [{
+			value: 'keep-named',
+			text: 'Keep named labels, renumber numeric ones'
+		}, {
+			value: 'named-to-numbers',
+			text: 'Convert named labels to numbers'
+		}, {
+			value: 'numbers-to-slugs',
+			text: 'Convert numbers to generated slugs'
+		}];
+		labelModes.forEach(mode => {
+			labelModeSelect.createEl('option', {
+				value: mode.value,
+				text: mode.text
 			});
+		});
+		labelModeSelect.value = 'keep-named';
+		this.labelModeSelect = labelModeSelect;
+
+		const namedLabels = this.plugin.extractFootnotes(this.content).filter(f => !this.plugin.isNumericLabel(f.number)).map(f => f.number);
+		labelSection.createEl('p', {
+			text: namedLabels.length > 0 ?
+				`Named labels in this note: ${namedLabels.map(label => `[^${label}]`).join(', ')}` :
+				'All labels in this note are numeric.',
+			cls: 'renumber-issue-detail'
+		});
 
-			closeBtn.onclick = () => {
-				this.close();
-			};
-			return;
-		}
+		// Numbering scheme: continuous, or restarting at each chapter heading
+		const numberingSection = issuesContainer.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const numberingContainer = numberingSection.createEl('label', {
+			cls: 'renumber-checkbox-container'
+		});
+		numberingContainer.createEl('span', {
+			text: 'Numbering: ',
+			cls: 'renumber-checkbox-label'
+		});
+		const numberingSelect = numberingContainer.createEl('select', {
+			cls: 'dropdown renumber-numbering-mode'
+		});
+		numberingSelect.createEl('option', {
+			value: 'continuous',
+			text: 'Continuous through the note'
+		});
+		[1, 2, 3, 4, 5, 6].forEach(level => {
+			numberingSelect.createEl('option', {
+				value: level.toString(),
+				text: `Restart at each H${level} heading`
+			});
+		});
+		numberingSelect.value = this.plugin.getChapterLevel()?.toString() ?? 'continuous';
+		this.numberingSelect = numberingSelect;
+		numberingSection.createEl('p', {
+			text: 'Restarted numbers are prefixed with the chapter, e.g. [^2-5]; footnotes before the first chapter heading keep plain numbers. Switching schemes renumbers by position.',
+			cls: 'renumber-issue-detail'
+		});
+
+		// Preview of the planned changes, re-rendered whenever the selection changes
+		this.previewContainer = contentEl.createEl('div', {
+			cls: 'renumber-preview'
+		});
 
 		// Warning
 		const warning = contentEl.createEl('p', {
 			cls: 'renumber-warning'
 		});
-		warning.innerHTML = '<strong>Warning:</strong> These actions cannot be undone. Please review your selections carefully.';
+		warning.innerHTML = '<strong>Warning:</strong> Please review the preview above carefully. All changes are applied as a single edit that can be reverted with undo.';
 
 		// Buttons
 		const buttonContainer = contentEl.createEl('div', {
@@ -284,14 +953,10 @@ class EnhancedRenumberConfirmationModal extends Modal {
 
 		// Button handlers
 		confirmBtn.onclick = () => {
-			const options: RenumberOptions = {
-				fixGaps: this.fixGapsCheckbox?.checked || false,
-				removeUnreferenced: this.removeUnreferencedCheckbox?.checked || false,
-				reorderByPosition: this.reorderByPositionCheckbox?.checked || false
-			};
+			const options = this.getSelectedOptions();
 
 			// Validate that at least one option is selected
-			if (!options.fixGaps && !options.removeUnreferenced && !options.reorderByPosition) {
+			if (!this.hasSelection(options)) {
 				// Show error message
 				const existingError = contentEl.querySelector('.renumber-error');
 				if (existingError) {
@@ -307,7 +972,8 @@ class EnhancedRenumberConfirmationModal extends Modal {
 				return;
 			}
 
-			this.onConfirm(options);
+			if (!this.previewedPlan) return;
+			this.onConfirm(this.previewedPlan);
 			this.close();
 		};
 
@@ -317,9 +983,7 @@ class EnhancedRenumberConfirmationModal extends Modal {
 
 		// Enable/disable confirm button based on selections
 		const updateConfirmButton = () => {
-			const hasSelection = (this.fixGapsCheckbox?.checked || false) ||
-				(this.removeUnreferencedCheckbox?.checked || false) ||
-				(this.reorderByPositionCheckbox?.checked || false);
+			const hasSelection = this.hasSelection(this.getSelectedOptions());
 			confirmBtn.disabled = !hasSelection;
 
 			if (hasSelection) {
@@ -327,6 +991,8 @@ class EnhancedRenumberConfirmationModal extends Modal {
 			} else {
 				confirmBtn.addClass('disabled');
 			}
+
+			this.renderPreview();
 		};
 
 		// Add event listeners for checkboxes
@@ -339,1236 +1005,1508 @@ class EnhancedRenumberConfirmationModal extends Modal {
 		if (this.reorderByPositionCheckbox) {
 			this.reorderByPositionCheckbox.addEventListener('change', updateConfirmButton);
 		}
+		labelModeSelect.addEventListener('change', updateConfirmButton);
+		numberingSelect.addEventListener('change', updateConfirmButton);
 
 		// Initial button state
 		updateConfirmButton();
 	}
 
-	onClose() {
-		const {
-			contentEl
-		} = this;
-		contentEl.empty();
+	private getSelectedOptions(): RenumberOptions {
+		const numbering = this.numberingSelect?.value || 'continuous';
+		const chapterLevel = numbering === 'continuous' ? null : parseInt(numbering);
+		return {
+			fixGaps: this.fixGapsCheckbox?.checked || false,
+			removeUnreferenced: this.removeUnreferencedCheckbox?.checked || false,
+			// A different numbering scheme means renumbering everything by position
+			reorderByPosition: this.reorderByPositionCheckbox?.checked || chapterLevel !== this.plugin.getChapterLevel(),
+			labelMode: (this.labelModeSelect?.value as RenumberLabelMode) || 'keep-named',
+			chapterLevel,
+			startNumber: this.startNumber
+		};
 	}
-}
-
-// FootnotesView Class
-class FootnotesView extends ItemView {
-	plugin: FootnotesManagerPlugin;
-	private currentFile: TFile | null = null;
-	private renderedGroups: RenderedGroup[] = [];
-	private isCollapsed: boolean = false;
-	private hasManualExpansions: boolean = false;
-	private isNavigating: boolean = false;
-	private pendingNavigation: string | null = null;
-	private isListView: boolean = false;
-	private cursorListener?: () => void;
-	private lastCursorCheck: number = 0;
-	private cursorThrottleDelay: number = 300;
-	private isProcessingCursor: boolean = false;
-	private jumpingToFootnote: string | null = null;
-	private lastJumpTime: number = 0;
-	private jumpThrottleDelay: number = 500;
-	private lastCheckedFootnote: string | null = null;
-	private cursorCheckInProgress: boolean = false;
 
-	constructor(leaf: WorkspaceLeaf, plugin: FootnotesManagerPlugin) {
-		super(leaf);
-		this.plugin = plugin;
-		this.isCollapsed = plugin.settings.defaultCollapsed;
+	private hasSelection(options: RenumberOptions): boolean {
+		return options.fixGaps || options.removeUnreferenced || options.reorderByPosition || options.labelMode !== 'keep-named';
 	}
 
-	private debug(message: string, ...args: any[]) {
-		if (this.plugin.settings.debugMode) {
-			console.log(`[Footnotes View] ${message}`, ...args);
-		}
-	}
+	private renderPreview() {
+		if (!this.previewContainer) return;
+		this.previewContainer.empty();
 
-	getViewType() {
-		return FOOTNOTES_VIEW_TYPE;
-	}
+		let plan: RenumberPlan;
+		try {
+			plan = this.plugin.planRenumbering(this.content, this.getSelectedOptions());
+		} catch (error) {
+			console.error('Footnotes Manager: renumber planning failed', error);
+			new Notice('Could not plan the renumbering: ' + error.message);
+			this.previewedPlan = null;
+			this.previewContainer.createEl('p', {
+				text: 'The selected options cannot be applied to this note.',
+				cls: 'renumber-issue-detail'
+			});
+			return;
+		}
+		this.previewedPlan = plan;
+		if (plan.lineChanges.length === 0) {
+			this.previewContainer.createEl('p', {
+				text: 'The selected options make no changes.',
+				cls: 'renumber-issue-detail'
+			});
+			return;
+		}
 
-	getDisplayText() {
-		return 'Footnotes';
-	}
+		// Old → new label mapping
+		if (plan.labelChanges.length > 0) {
+			this.previewContainer.createEl('h4', {
+				text: `Label changes (${plan.labelChanges.length})`
+			});
+			const mappingTable = this.previewContainer.createEl('table', {
+				cls: 'renumber-preview-table renumber-mapping-table'
+			});
+			const headerRow = mappingTable.createEl('tr');
+			headerRow.createEl('th', {
+				text: 'Old'
+			});
+			headerRow.createEl('th', {
+				text: 'New'
+			});
+			plan.labelChanges.forEach(change => {
+				const row = mappingTable.createEl('tr');
+				row.createEl('td', {
+					text: `[^${change.oldLabel}]`
+				});
+				row.createEl('td', {
+					text: `[^${change.newLabel}]`
+				});
+			});
+		}
 
-	getIcon() {
-		return 'hash';
-	}
+		// Definitions that will be deleted
+		if (plan.deletedFootnotes.length > 0) {
+			this.previewContainer.createEl('h4', {
+				text: `Definitions to delete (${plan.deletedFootnotes.length})`
+			});
+			const deletedList = this.previewContainer.createEl('ul', {
+				cls: 'renumber-deleted-list'
+			});
+			plan.deletedFootnotes.forEach(footnote => {
+				deletedList.createEl('li', {
+					text: `Line ${footnote.definition.line + 1}: [^${footnote.number}]: ${footnote.content}`,
+					cls: 'renumber-warning-text'
+				});
+			});
+		}
 
-	async onOpen() {
-		this.refresh();
+		// Side-by-side preview of every affected line
+		this.previewContainer.createEl('h4', {
+			text: `Affected lines (${plan.lineChanges.length})`
+		});
+		const linesTable = this.previewContainer.createEl('table', {
+			cls: 'renumber-preview-table renumber-lines-table'
+		});
+		const linesHeader = linesTable.createEl('tr');
+		linesHeader.createEl('th', {
+			text: 'Line'
+		});
+		linesHeader.createEl('th', {
+			text: 'Before'
+		});
+		linesHeader.createEl('th', {
+			text: 'After'
+		});
+		plan.lineChanges.forEach(change => {
+			const row = linesTable.createEl('tr');
+			row.createEl('td', {
+				text: (change.line + 1).toString(),
+				cls: 'renumber-line-number'
+			});
+			row.createEl('td', {
+				text: change.before,
+				cls: 'renumber-line-before'
+			});
+			const afterCell = row.createEl('td', {
+				text: change.after,
+				cls: 'renumber-line-after'
+			});
+			if (change.after === '') {
+				afterCell.setText('(removed)');
+				afterCell.addClass('renumber-line-removed');
+			}
+		});
 	}
 
-	async onClose() {
-		// Clean up cursor listener
-		this.removeCursorListener();
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 	}
+}
 
-	refresh() {
-		this.debug('FootnotesView.refresh called');
+// Interface for a single text replacement, in offsets of the original document
+interface TextChange {
+	from: number;
+	to: number;
+	text: string;
+}
 
-		const now = Date.now();
-		const skipCheckTimestamp = (this as any).skipCheckTimestamp || 0;
-		const lastRefreshCheck = (this as any).lastRefreshCheck || 0;
-		const timeSinceSkipCheck = now - skipCheckTimestamp;
-		const timeSinceLastRefresh = now - lastRefreshCheck;
+// Collects the replacements of one footnote operation against a snapshot of the document
+// and applies them as a single editor transaction, so the operation is one precise undo step
+// and text outside the changed ranges is never rewritten.
+class EditBatch {
+	readonly content: string;
+	private changes: TextChange[] = [];
 
-		if (this.plugin.skipNextRefresh || now < this.plugin.skipRefreshUntil) {
-			this.debug('Skipping FootnotesView refresh due to plugin skip flags');
-			return;
-		}
+	constructor(content: string) {
+		this.content = content;
+	}
 
-		if (timeSinceSkipCheck < 100 && this.plugin.skipRefreshUntil > now - 2000) {
-			this.debug('Skipping FootnotesView refresh - too soon after skip check');
-			return;
+	get isEmpty(): boolean {
+		return this.getMinimalChanges().length === 0;
+	}
+
+	replace(from: number, to: number, text: string) {
+		// Planners edit references and definitions independently, so a reference may sit inside a definition
+		// that is deleted: the edit is moot, and a deletion covering earlier edits replaces them
+		if (this.isDeleted(from, to)) return;
+		if (text === '' && from < to) {
+			this.changes = this.changes.filter(change => !(from <= change.from && change.to <= to && (change.from < change.to || (from < change.from && change.to < to))));
+		}
+		if (this.overlaps(from, to)) {
+			throw new Error(`Overlapping footnote edits at ${from}-${to}`);
 		}
+		this.changes.push({
+			from,
+			to,
+			text
+		});
+	}
 
-		if (this.isNavigating || this.plugin.isNavigating) {
-			this.debug('Skipping FootnotesView refresh - currently navigating');
-			return;
+	insert(at: number, text: string) {
+		this.replace(at, at, text);
+	}
+
+	delete(from: number, to: number) {
+		this.replace(from, to, '');
+	}
+
+	// Deletes an inline span such as a reference, along with the space that would otherwise be left doubled
+	deleteSpan(from: number, to: number) {
+		const before = this.content.charAt(from - 1);
+		const after = this.content.charAt(to);
+		if ((before === ' ' || before === '\t') && (after === '' || /[\s.,;:!?)]/.test(after))) {
+			from--;
 		}
+		this.delete(from, to);
+	}
 
-		if (timeSinceLastRefresh < 100 && this.plugin.skipRefreshUntil > now - 3000) {
-			this.debug('Skipping FootnotesView refresh - too frequent');
-			return;
+	// Deletes a whole definition block together with its line break
+	deleteDefinition(definition: FootnoteDefinition) {
+		let from = definition.startPos;
+		let to = definition.endPos;
+		if (this.isDeleted(from, to)) return;
+		if (this.content.charAt(to) === '\n' && !this.overlaps(to, to + 1)) {
+			to++;
+		} else if (from > 0 && this.content.charAt(from - 1) === '\n' && !this.overlaps(from - 1, from)) {
+			from--;
 		}
+		this.delete(from, to);
+	}
 
-		(this as any).lastRefreshCheck = now;
+	// Whether [from, to) lies inside text a change deletes; insertions must be strictly inside
+	private isDeleted(from: number, to: number): boolean {
+		return this.changes.some(change => change.text === '' && change.from < change.to && (
+			from === to ? change.from < from && to < change.to : change.from <= from && to <= change.to
+		));
+	}
 
-		this.debug('Proceeding with FootnotesView refresh');
-		const container = this.containerEl.children[1] as HTMLElement;
-		const currentScroll = container.scrollTop;
-		this.debug('Saved current scroll position before refresh:', currentScroll);
-		container.empty();
+	private overlaps(from: number, to: number): boolean {
+		return this.changes.some(change => from < change.to && change.from < to);
+	}
 
-		const header = container.createEl('div', {
-			cls: 'footnotes-header'
-		});
-		const titleRow = header.createEl('div', {
-			cls: 'footnotes-title-row'
-		});
-		titleRow.createEl('h4', {
-			text: 'Footnotes',
-			cls: 'footnotes-title'
+	// Maps an offset in the original document to the document after the batch is applied
+	mapOffset(offset: number): number {
+		let mapped = offset;
+		this.changes.forEach(change => {
+			if (change.to <= offset) {
+				mapped += change.text.length - (change.to - change.from);
+			}
 		});
+		return mapped;
+	}
 
-		const controlsContainer = titleRow.createEl('div', {
-			cls: 'footnotes-controls'
+	applyToString(): string {
+		let result = this.content;
+		// Apply back to front; reversing an ascending stable sort keeps same-offset insertions in order
+		[...this.changes].sort((a, b) => a.from - b.from).reverse().forEach(change => {
+			result = result.substring(0, change.from) + change.text + result.substring(change.to);
 		});
+		return result;
+	}
 
-		const navBtn = controlsContainer.createEl('button', {
-			cls: 'footnotes-control-btn nav-btn',
-			attr: {
-				title: 'Jump to footnotes section'
+	// Groups the changes by the lines they touch, showing each line range before and after the batch
+	getLineChanges(): LineChange[] {
+		const spans: Array < { from: number, to: number, changes: TextChange[] } > = [];
+		this.getMinimalChanges().forEach(change => {
+			// A change ending in a line break belongs to the line it ends, not the following one
+			const endProbe = change.to > change.from && this.content.charAt(change.to - 1) === '\n' ? change.to - 1 : change.to;
+			const from = this.content.lastIndexOf('\n', change.from - 1) + 1;
+			const lineEnd = this.content.indexOf('\n', endProbe);
+			const to = Math.max(lineEnd === -1 ? this.content.length : lineEnd, change.to);
+
+			const last = spans[spans.length - 1];
+			if (last && from <= last.to) {
+				last.to = Math.max(last.to, to);
+				last.changes.push(change);
+			} else {
+				spans.push({
+					from,
+					to,
+					changes: [change]
+				});
 			}
 		});
-		setIcon(navBtn, 'footprints');
 
-		const returnBtn = controlsContainer.createEl('button', {
-			cls: 'footnotes-control-btn return-btn',
-			attr: {
-				title: 'Return to last edit position'
-			}
+		return spans.map(span => {
+			let after = this.content.substring(span.from, span.to);
+			[...span.changes].reverse().forEach(change => {
+				after = after.substring(0, change.from - span.from) + change.text + after.substring(change.to - span.from);
+			});
+			return {
+				line: this.content.substring(0, span.from).split('\n').length - 1,
+				before: this.content.substring(span.from, span.to).replace(/\n$/, ''),
+				after: after.replace(/\n$/, '')
+			};
 		});
-		setIcon(returnBtn, 'file-text');
+	}
 
-		const renumberBtn = controlsContainer.createEl('button', {
-			cls: 'footnotes-control-btn renumber-btn',
-			attr: {
-				title: 'Renumber footnotes (remove gaps)'
-			}
+	// Returns false without touching the editor if the document changed since the batch was built
+	apply(editor: Editor): boolean {
+		if (editor.getValue() !== this.content) {
+			return false;
+		}
+
+		const changes = this.getMinimalChanges();
+		if (changes.length === 0) {
+			return true;
+		}
+
+		editor.transaction({
+			changes: changes.map(change => ({
+				from: editor.offsetToPos(change.from),
+				to: editor.offsetToPos(change.to),
+				text: change.text
+			}))
 		});
-		setIcon(renumberBtn, 'list-ordered');
+		return true;
+	}
 
-		const listViewBtn = controlsContainer.createEl('button', {
-			cls: 'footnotes-control-btn list-view-btn',
-			attr: {
-				title: 'Toggle between outline and list view'
+	// Sorted changes with unchanged leading and trailing text trimmed off, dropping no-ops
+	private getMinimalChanges(): TextChange[] {
+		const minimal: TextChange[] = [];
+		this.changes.forEach(change => {
+			const original = this.content.substring(change.from, change.to);
+			let prefix = 0;
+			while (prefix < original.length && prefix < change.text.length && original[prefix] === change.text[prefix]) {
+				prefix++;
 			}
+			let suffix = 0;
+			while (
+				suffix < original.length - prefix &&
+				suffix < change.text.length - prefix &&
+				original[original.length - 1 - suffix] === change.text[change.text.length - 1 - suffix]
+			) {
+				suffix++;
+			}
+			if (prefix === original.length && prefix === change.text.length) return;
+
+			minimal.push({
+				from: change.from + prefix,
+				to: change.to - suffix,
+				text: change.text.substring(prefix, change.text.length - suffix)
+			});
 		});
-		setIcon(listViewBtn, this.isListView ? 'list' : 'list-tree');
+		// Stable sort keeps insertions at the same offset in the order they were added
+		return minimal.sort((a, b) => a.from - b.from);
+	}
+}
 
-		let toggleAllBtn: HTMLButtonElement | undefined;
-		if (!this.isListView) {
-			toggleAllBtn = controlsContainer.createEl('button', {
-				cls: 'footnotes-toggle-btn',
-				attr: {
-					title: 'Toggle collapse/expand all sections'
-				}
+// Modal for resolving a label that is defined more than once
+class DuplicateDefinitionModal extends Modal {
+	plugin: FootnotesManagerPlugin;
+	footnote: FootnoteData;
+	private definitions: FootnoteDefinition[];
+	private references: FootnoteReference[];
+	private content: string;
+	private startNumber: number;
+
+	constructor(app: App, plugin: FootnotesManagerPlugin, footnote: FootnoteData, content: string, startNumber: number) {
+		super(app);
+		this.plugin = plugin;
+		this.footnote = footnote;
+		this.definitions = [footnote.definition, ...(footnote.duplicateDefinitions || [])];
+		this.references = footnote.references;
+		this.content = content;
+		this.startNumber = startNumber;
+	}
+
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {
+			text: `Duplicate definitions of [${this.footnote.number}]`
+		});
+		contentEl.createEl('p', {
+			text: `This label is defined ${this.definitions.length} times. Only the first definition is shown when the note is rendered.`,
+			cls: 'renumber-description'
+		});
+
+		// Option 1: keep one definition
+		const keepSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		keepSection.createEl('h4', {
+			text: 'Keep one definition'
+		});
+		this.definitions.forEach((definition, index) => {
+			const row = keepSection.createEl('div', {
+				cls: 'duplicate-definition-row'
 			});
-			setIcon(toggleAllBtn, this.isCollapsed ? 'plus' : 'minus');
-		}
+			row.createEl('span', {
+				cls: 'duplicate-definition-line',
+				text: `Line ${definition.line + 1}`
+			});
+			row.createEl('span', {
+				cls: 'duplicate-definition-text',
+				text: definition.content || '(empty footnote)'
+			});
+			const keepBtn = row.createEl('button', {
+				text: 'Keep only this'
+			});
+			keepBtn.onclick = () => {
+				this.plugin.keepDuplicateDefinition(this.footnote.number, index);
+				this.close();
+			};
+		});
 
-		const searchContainer = header.createEl('div', {
-			cls: 'footnotes-search-container'
+		// Option 2: merge the text of all definitions
+		const mergeSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
 		});
-		const searchInput = searchContainer.createEl('input', {
-			type: 'text',
-			cls: 'footnotes-search-input',
+		mergeSection.createEl('h4', {
+			text: 'Merge text'
+		});
+		const mergeText = mergeSection.createEl('textarea', {
+			cls: 'duplicate-merge-textarea',
 			attr: {
-				placeholder: 'Search footnotes...',
+				rows: '4',
 				spellcheck: 'false'
 			}
 		});
+		mergeText.value = this.definitions.map(d => d.content).filter(text => text.trim() !== '').join(' ');
+		const mergeBtn = mergeSection.createEl('button', {
+			text: 'Merge into one definition'
+		});
+		mergeBtn.onclick = () => {
+			this.plugin.mergeDuplicateDefinitions(this.footnote.number, mergeText.value.trim());
+			this.close();
+		};
 
-		const clearSearchBtn = searchContainer.createEl('button', {
-			cls: 'footnotes-clear-search',
-			attr: {
-				title: 'Clear search'
-			}
+		// Option 3: give a later definition a fresh number and move references to it
+		const splitSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const newNumber = this.plugin.getNextFootnoteNumber(this.content, [], this.startNumber).toString();
+		splitSection.createEl('h4', {
+			text: `Give a definition the new number [${newNumber}]`
 		});
-		setIcon(clearSearchBtn, 'x');
 
-		let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		let currentFile = this.app.workspace.getActiveFile();
+		const definitionSelect = splitSection.createEl('select', {
+			cls: 'dropdown'
+		});
+		this.definitions.forEach((definition, index) => {
+			if (index === 0) return;
+			definitionSelect.createEl('option', {
+				value: index.toString(),
+				text: `Line ${definition.line + 1}: ${definition.content.substring(0, 60)}`
+			});
+		});
 
-		if (!activeView && currentFile) {
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === currentFile) {
-					activeView = view;
-					break;
-				}
-			}
+		const referenceCheckboxes: HTMLInputElement[] = [];
+		if (this.references.length > 0) {
+			splitSection.createEl('p', {
+				text: 'References to move to the new number:',
+				cls: 'renumber-issue-detail'
+			});
+			this.references.forEach(reference => {
+				const label = splitSection.createEl('label', {
+					cls: 'renumber-checkbox-container'
+				});
+				const checkbox = label.createEl('input', {
+					type: 'checkbox',
+					cls: 'renumber-checkbox'
+				});
+				label.createEl('span', {
+					cls: 'renumber-checkbox-label',
+					text: `Line ${reference.line + 1}: ${this.plugin.getReferenceContext(this.content, reference)}`
+				});
+				referenceCheckboxes.push(checkbox);
+			});
 		}
 
-		if (!activeView && this.currentFile) {
-			currentFile = this.currentFile;
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === currentFile) {
-					activeView = view;
-					break;
-				}
-			}
-		}
+		const splitBtn = splitSection.createEl('button', {
+			text: `Assign [${newNumber}]`
+		});
+		splitBtn.onclick = () => {
+			const movedReferences = referenceCheckboxes
+				.map((checkbox, index) => checkbox.checked ? index : -1)
+				.filter(index => index !== -1);
+			this.plugin.renumberDuplicateDefinition(this.footnote.number, parseInt(definitionSelect.value), movedReferences);
+			this.close();
+		};
 
-		if (currentFile) {
-			this.currentFile = currentFile;
-		}
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelBtn.onclick = () => {
+			this.close();
+		};
+	}
 
-		this.setupNavigationButtons(navBtn, returnBtn, renumberBtn, listViewBtn, activeView, currentFile);
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+	}
+}
 
-		if (!activeView && !currentFile) {
-			container.createEl('div', {
-				text: 'No active markdown file',
-				cls: 'footnotes-empty'
+// Modal listing footnotes whose definitions have the same text
+class DuplicateContentModal extends Modal {
+	plugin: FootnotesManagerPlugin;
+	groups: FootnoteData[][];
+	onConfirm: (merges: Array < { survivor: string, merged: string[] } > , renumber: boolean) => void;
+
+	constructor(
+		app: App,
+		plugin: FootnotesManagerPlugin,
+		groups: FootnoteData[][],
+		onConfirm: (merges: Array < { survivor: string, merged: string[] } > , renumber: boolean) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.groups = groups;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {
+			text: 'Footnotes with duplicate content'
+		});
+		contentEl.createEl('p', {
+			text: 'Select the groups to merge and the footnote that survives. References to the other footnotes are rewritten to point at the survivor and their definitions are deleted.',
+			cls: 'renumber-description'
+		});
+
+		const selections: Array < { include: HTMLInputElement, survivor: HTMLSelectElement, group: FootnoteData[] } > = [];
+
+		const issuesContainer = contentEl.createEl('div', {
+			cls: 'renumber-issues-container'
+		});
+		this.groups.forEach(group => {
+			const section = issuesContainer.createEl('div', {
+				cls: 'renumber-issue-section'
+			});
+			const label = section.createEl('label', {
+				cls: 'renumber-checkbox-container'
+			});
+			const include = label.createEl('input', {
+				type: 'checkbox',
+				cls: 'renumber-checkbox'
+			});
+			include.checked = true;
+			label.createEl('span', {
+				text: `[${group.map(f => f.number).join('], [')}]`,
+				cls: 'renumber-checkbox-label'
 			});
-			this.disableControls(toggleAllBtn, navBtn, returnBtn, renumberBtn, searchInput, listViewBtn);
-			container.scrollTop = currentScroll;
-			return;
-		}
 
-		let content = '';
+			section.createEl('p', {
+				text: group[0].content,
+				cls: 'renumber-issue-detail'
+			});
 
-		if (activeView) {
-			content = activeView.editor.getValue();
-			this.processFootnotes(content, container, toggleAllBtn, toggleAllBtn, searchInput, clearSearchBtn, navBtn, returnBtn, renumberBtn, listViewBtn);
-		} else if (currentFile) {
-			this.app.vault.read(currentFile).then(fileContent => {
-				this.processFootnotes(fileContent, container, toggleAllBtn, toggleAllBtn, searchInput, clearSearchBtn, navBtn, returnBtn, renumberBtn, listViewBtn);
-				container.scrollTop = currentScroll;
+			const survivorRow = section.createEl('div', {
+				cls: 'duplicate-definition-row'
+			});
+			survivorRow.createEl('span', {
+				text: 'Keep as:'
+			});
+			const survivor = survivorRow.createEl('select', {
+				cls: 'dropdown'
+			});
+			group.forEach(footnote => {
+				survivor.createEl('option', {
+					value: footnote.number,
+					text: `[${footnote.number}] (${footnote.referenceCount} ref${footnote.referenceCount !== 1 ? 's' : ''})`
+				});
 			});
-			return;
-		}
 
-		// Restore scroll position after rendering
-		container.scrollTop = currentScroll;
-		this.debug('Restored scroll position after refresh:', container.scrollTop);
-	}
+			selections.push({
+				include,
+				survivor,
+				group
+			});
+		});
 
-	private setupNavigationButtons(
-		navBtn: HTMLButtonElement,
-		returnBtn: HTMLButtonElement,
-		renumberBtn: HTMLButtonElement,
-		listViewBtn: HTMLButtonElement,
-		activeView: MarkdownView | null,
-		currentFile: TFile | null
-	) {
-		navBtn.onclick = (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.plugin.setSkipRefreshPeriod(1000);
-			setTimeout(() => {
-				this.plugin.jumpToFootnotesSection();
-			}, 10);
-		};
+		const renumberLabel = contentEl.createEl('label', {
+			cls: 'renumber-checkbox-container'
+		});
+		const renumberCheckbox = renumberLabel.createEl('input', {
+			type: 'checkbox',
+			cls: 'renumber-checkbox'
+		});
+		renumberCheckbox.checked = true;
+		renumberLabel.createEl('span', {
+			text: 'Renumber footnotes afterwards to close the gaps',
+			cls: 'renumber-checkbox-label'
+		});
 
-		returnBtn.onclick = (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.plugin.setSkipRefreshPeriod(1000);
-			setTimeout(() => {
-				this.plugin.returnToLastEditPosition();
-			}, 10);
-		};
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const confirmBtn = buttonContainer.createEl('button', {
+			text: 'Merge Selected',
+			cls: 'mod-cta'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
 
-		renumberBtn.onclick = (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.plugin.setSkipRefreshPeriod(1000);
-			setTimeout(() => {
-				this.plugin.renumberFootnotes();
-			}, 10);
+		confirmBtn.onclick = () => {
+			const merges = selections
+				.filter(selection => selection.include.checked)
+				.map(selection => ({
+					survivor: selection.survivor.value,
+					merged: selection.group.map(f => f.number).filter(number => number !== selection.survivor.value)
+				}));
+
+			if (merges.length === 0) {
+				new Notice('Select at least one group to merge');
+				return;
+			}
+
+			this.onConfirm(merges, renumberCheckbox.checked);
+			this.close();
 		};
 
-		listViewBtn.onclick = (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.isListView = !this.isListView;
-			setIcon(listViewBtn, this.isListView ? 'list' : 'heading');
-			listViewBtn.setAttribute('title', this.isListView ?
-				'Switch to outline view (grouped by headings)' :
-				'Switch to list view (simple list)'
-			);
-			this.refresh();
+		cancelBtn.onclick = () => {
+			this.close();
 		};
 	}
 
-	private disableControls(
-		toggleBtn ? : HTMLButtonElement,
-		navBtn ? : HTMLButtonElement,
-		returnBtn ? : HTMLButtonElement,
-		renumberBtn ? : HTMLButtonElement,
-		searchInput ? : HTMLInputElement,
-		listViewBtn ? : HTMLButtonElement
-	) {
-		if (toggleBtn) toggleBtn.disabled = true;
-		if (navBtn) navBtn.disabled = true;
-		if (returnBtn) returnBtn.disabled = true;
-		if (renumberBtn) renumberBtn.disabled = true;
-		if (searchInput) searchInput.disabled = true;
-		if (listViewBtn) listViewBtn.disabled = true;
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 	}
+}
 
-	// UPDATED: processFootnotes method with unreferenced footnotes handling
-	private processFootnotes(
-		content: string,
-		container: Element,
-		toggleBtn ? : HTMLButtonElement,
-		toggleIcon ? : HTMLElement,
-		searchInput ? : HTMLInputElement,
-		clearSearchBtn ? : HTMLButtonElement,
-		navBtn ? : HTMLButtonElement,
-		returnBtn ? : HTMLButtonElement,
-		renumberBtn ? : HTMLButtonElement,
-		listViewBtn ? : HTMLButtonElement
-	) {
-		this.debug('Processing footnotes for content of length:', content.length, 'isListView:', this.isListView);
-
-		const currentStates = new Map < string,
-			boolean > ();
-		this.renderedGroups.forEach(rendered => {
-			if (rendered.group.header) {
-				const key = `${rendered.group.header.level}-${rendered.group.header.text}`;
-				currentStates.set(key, !rendered.group.isCollapsed);
-			}
-		});
+// Modal for choosing which references of a multi-reference footnote to delete
+class DeleteReferencesModal extends Modal {
+	plugin: FootnotesManagerPlugin;
+	footnote: FootnoteData;
+	private content: string;
+	private onConfirm: (referenceIndices: number[]) => void;
 
-		this.renderedGroups = [];
+	constructor(app: App, plugin: FootnotesManagerPlugin, footnote: FootnoteData, content: string, onConfirm: (referenceIndices: number[]) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.footnote = footnote;
+		this.content = content;
+		this.onConfirm = onConfirm;
+	}
 
-		const footnotes = this.plugin.extractFootnotes(content);
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 
-		this.debug('Found', footnotes.length, 'footnotes');
+		contentEl.createEl('h2', {
+			text: `Delete references to [${this.footnote.number}]`
+		});
+		contentEl.createEl('p', {
+			text: `This footnote has ${this.footnote.references.length} references. Select the ones to delete.`,
+			cls: 'renumber-description'
+		});
 
-		if (footnotes.length === 0) {
-			container.createEl('div', {
-				text: 'No footnotes found',
-				cls: 'footnotes-empty'
+		const referencesSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const checkboxes: HTMLInputElement[] = [];
+		this.footnote.references.forEach(reference => {
+			const label = referencesSection.createEl('label', {
+				cls: 'renumber-checkbox-container'
 			});
+			const checkbox = label.createEl('input', {
+				type: 'checkbox',
+				cls: 'renumber-checkbox'
+			});
+			label.createEl('span', {
+				cls: 'renumber-checkbox-label',
+				text: `Line ${reference.line + 1}: ${this.plugin.getReferenceContext(this.content, reference, 50, true)}`
+			});
+			checkboxes.push(checkbox);
+		});
 
-			this.disableControls(toggleBtn, navBtn, returnBtn, renumberBtn, searchInput, listViewBtn);
-			return;
-		}
-
-		// Enable controls when we have footnotes
-		if (toggleBtn) toggleBtn.disabled = false;
-		if (searchInput) searchInput.disabled = false;
-		if (navBtn) navBtn.disabled = false;
-		if (returnBtn) returnBtn.disabled = false;
-		if (renumberBtn) renumberBtn.disabled = false;
-		if (listViewBtn) listViewBtn.disabled = false;
+		const definitionNote = contentEl.createEl('p', {
+			text: 'All references are selected, so the footnote definition will be deleted as well.',
+			cls: 'renumber-warning'
+		});
 
-		const footnotesList = container.createEl('div', {
-			cls: 'footnotes-list'
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const deleteBtn = buttonContainer.createEl('button', {
+			text: 'Delete selected',
+			cls: 'mod-warning'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
 		});
 
-		// MOVED: Set up search functionality for BOTH view modes
-		if (searchInput && clearSearchBtn) {
-			let searchTimeout: number | null = null;
-			let currentSearchTerm = '';
+		const getSelected = () => checkboxes
+			.map((checkbox, index) => checkbox.checked ? index : -1)
+			.filter(index => index !== -1);
 
-			const performSearch = () => {
-				const searchTerm = searchInput.value.toLowerCase().trim();
-				currentSearchTerm = searchTerm;
+		const updateState = () => {
+			const selected = getSelected();
+			deleteBtn.disabled = selected.length === 0;
+			definitionNote.style.display = selected.length === checkboxes.length ? 'block' : 'none';
+		};
+		checkboxes.forEach(checkbox => checkbox.addEventListener('change', updateState));
+		updateState();
 
-				// Clear current content
-				footnotesList.empty();
+		deleteBtn.onclick = () => {
+			const selected = getSelected();
+			if (selected.length === 0) return;
+			this.onConfirm(selected);
+			this.close();
+		};
+		cancelBtn.onclick = () => {
+			this.close();
+		};
+	}
 
-				if (this.isListView) {
-					// Filter and render list view
-					this.filterAndRenderListView(footnotes, footnotesList, searchTerm);
-				} else {
-					// Filter and render outline view (existing functionality)
-					const headers = this.plugin.extractHeaders(content);
-					const footnoteGroups = this.plugin.groupFootnotesByHeaders(footnotes, headers);
-					this.filterFootnotes(footnotesList, footnoteGroups, searchTerm);
-				}
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+	}
+}
 
-				if (searchTerm) {
-					clearSearchBtn.style.display = 'block';
-				} else {
-					clearSearchBtn.style.display = 'none';
-				}
-			};
+// Modal for choosing which reference a footnote is unwrapped into
+class UnwrapFootnoteModal extends Modal {
+	plugin: FootnotesManagerPlugin;
+	footnote: FootnoteData;
+	private content: string;
+	private onChoose: (referenceIndex: number) => void;
 
-			(this as any).currentSearchTerm = '';
+	constructor(app: App, plugin: FootnotesManagerPlugin, footnote: FootnoteData, content: string, onChoose: (referenceIndex: number) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.footnote = footnote;
+		this.content = content;
+		this.onChoose = onChoose;
+	}
 
-			searchInput.addEventListener('input', () => {
-				this.debug('Search input changed:', searchInput.value);
-				if (searchTimeout) {
-					window.clearTimeout(searchTimeout);
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {
+			text: `Unwrap footnote [${this.footnote.number}]`
+		});
+		contentEl.createEl('p', {
+			text: `This footnote has ${this.footnote.references.length} references. Choose the reference to replace with the footnote text. The definition is kept for the other references.`,
+			cls: 'renumber-description'
+		});
+
+		const referencesSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const radios: HTMLInputElement[] = [];
+		this.footnote.references.forEach((reference, index) => {
+			const label = referencesSection.createEl('label', {
+				cls: 'renumber-checkbox-container'
+			});
+			const radio = label.createEl('input', {
+				type: 'radio',
+				cls: 'renumber-checkbox',
+				attr: {
+					name: 'unwrap-reference'
 				}
-				searchTimeout = window.setTimeout(() => {
-					(this as any).currentSearchTerm = searchInput.value.toLowerCase().trim();
-					performSearch();
-				}, 300);
 			});
-
-			clearSearchBtn.addEventListener('click', () => {
-				this.debug('Clear search clicked');
-				searchInput.value = '';
-				(this as any).currentSearchTerm = '';
-				performSearch();
-				searchInput.focus();
+			radio.checked = index === 0;
+			label.createEl('span', {
+				cls: 'renumber-checkbox-label',
+				text: `Line ${reference.line + 1}: ${this.plugin.getReferenceContext(this.content, reference)}`
 			});
+			radios.push(radio);
+		});
 
-			clearSearchBtn.style.display = 'none';
-		}
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const unwrapBtn = buttonContainer.createEl('button', {
+			text: 'Unwrap',
+			cls: 'mod-cta'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
 
-		// Render initial view based on mode
-		if (this.isListView) {
-			this.debug('Rendering in list view mode');
-			this.renderListView(footnotes, footnotesList);
-		} else {
-			this.debug('Rendering in outline view mode');
-			// Process headers and create groups for outline view
-			const headers = this.plugin.extractHeaders(content);
-			const footnoteGroups = this.plugin.groupFootnotesByHeaders(footnotes, headers);
+		unwrapBtn.onclick = () => {
+			const index = radios.findIndex(radio => radio.checked);
+			if (index === -1) return;
+			this.onChoose(index);
+			this.close();
+		};
+		cancelBtn.onclick = () => {
+			this.close();
+		};
+	}
 
-			this.debug('Found', footnoteGroups.length, 'groups');
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+	}
+}
 
-			const allGroups: FootnoteGroup[] = [];
-			const collectAllGroups = (groups: FootnoteGroup[]) => {
-				groups.forEach(group => {
-					allGroups.push(group);
-					if (group.children) {
-						collectAllGroups(group.children);
-					}
-				});
-			};
-			collectAllGroups(footnoteGroups);
+// Modal asking for a new footnote label, validated as it is typed
+class RenameLabelModal extends Modal {
+	plugin: FootnotesManagerPlugin;
+	private label: string;
+	private content: string;
+	private onRename: (newLabel: string) => void;
 
-			if (toggleBtn && toggleIcon) {
-				toggleBtn.onclick = (e) => {
-					this.debug('Toggle button clicked, current state:', this.isCollapsed);
-					e.preventDefault();
-					e.stopPropagation();
-					this.toggleAllGroups(toggleBtn);
-				};
+	constructor(app: App, plugin: FootnotesManagerPlugin, label: string, content: string, onRename: (newLabel: string) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.label = label;
+		this.content = content;
+		this.onRename = onRename;
+	}
 
-				this.updateToggleButton(toggleBtn);
-			}
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 
-			footnoteGroups.forEach(group => {
-				if (this.isCollapsed && !this.hasManualExpansions) {
-					this.setGroupCollapsedRecursively(group, true);
-				}
-				this.renderFootnoteGroup(group, footnotesList, 0);
-			});
+		contentEl.createEl('h2', {
+			text: `Rename footnote [${this.label}]`
+		});
+		contentEl.createEl('p', {
+			text: 'The definition and every reference are updated.',
+			cls: 'renumber-description'
+		});
 
-			if (this.hasManualExpansions && currentStates.size > 0) {
-				this.restoreExpansionStates(footnoteGroups, currentStates);
+		const input = contentEl.createEl('input', {
+			type: 'text',
+			cls: 'footnote-rename-input',
+			attr: {
+				spellcheck: 'false'
 			}
-		}
+		});
+		input.value = this.label;
+		const errorEl = contentEl.createEl('p', {
+			cls: 'renumber-warning-text footnote-rename-error'
+		});
 
-		this.debug('Rendered groups count:', this.renderedGroups.length);
-		this.debug('Initial collapsed state:', this.isCollapsed, 'hasManualExpansions:', this.hasManualExpansions);
-	}
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const renameBtn = buttonContainer.createEl('button', {
+			text: 'Rename',
+			cls: 'mod-cta'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
 
-	private restoreExpansionStates(groups: FootnoteGroup[], states: Map < string, boolean > ) {
-		const restoreGroup = (group: FootnoteGroup) => {
-			if (group.header) {
-				const key = `${group.header.level}-${group.header.text}`;
-				const wasExpanded = states.get(key);
-				if (wasExpanded !== undefined) {
-					group.isCollapsed = !wasExpanded;
+		const validate = (): string | null => {
+			const error = this.plugin.validateFootnoteLabel(this.content, this.label, input.value.trim());
+			errorEl.setText(input.value.trim() === this.label ? '' : error || '');
+			renameBtn.disabled = error !== null;
+			return error;
+		};
 
-					const rendered = this.renderedGroups.find(r =>
-						r.group.header &&
-						r.group.header.level === group.header!.level &&
-						r.group.header.text === group.header!.text
-					);
-					if (rendered) {
-						setIcon(rendered.collapseIcon as HTMLElement, group.isCollapsed ? 'chevron-right' : 'chevron-down');
-						rendered.contentElement.style.display = group.isCollapsed ? 'none' : 'block';
-					}
-				}
-			}
+		const submit = () => {
+			if (validate() !== null) return;
+			this.onRename(input.value.trim());
+			this.close();
+		};
 
-			if (group.children) {
-				group.children.forEach(restoreGroup);
+		input.addEventListener('input', validate);
+		input.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') {
+				e.preventDefault();
+				submit();
 			}
+		});
+		renameBtn.onclick = submit;
+		cancelBtn.onclick = () => {
+			this.close();
 		};
 
-		groups.forEach(restoreGroup);
+		validate();
+		input.focus();
+		input.select();
 	}
 
-	private setGroupCollapsedRecursively(group: FootnoteGroup, collapsed: boolean) {
-		group.isCollapsed = collapsed;
-		if (group.children) {
-			group.children.forEach(child => {
-				this.setGroupCollapsedRecursively(child, collapsed);
-			});
-		}
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 	}
+}
 
-	private highlightSearchText(text: string, searchTerm: string): string {
-		if (!searchTerm) return text;
+// Modal for choosing the format and destination of a footnote export
+class ExportFootnotesModal extends Modal {
+	private footnoteCount: number;
+	private onExport: (format: FootnoteExportFormat, destination: FootnoteExportDestination) => void;
 
-		const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-		return text.replace(regex, '<mark class="search-highlight">$1</mark>');
+	constructor(app: App, footnoteCount: number, onExport: (format: FootnoteExportFormat, destination: FootnoteExportDestination) => void) {
+		super(app);
+		this.footnoteCount = footnoteCount;
+		this.onExport = onExport;
 	}
 
-	private filterFootnotes(footnotesList: Element, footnoteGroups: FootnoteGroup[], searchTerm: string) {
-		footnotesList.empty();
-
-		if (!searchTerm) {
-			footnoteGroups.forEach(group => {
-				this.renderFootnoteGroup(group, footnotesList, 0);
-			});
-			return;
-		}
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 
-		const filteredGroups = this.filterGroupsRecursively(footnoteGroups, searchTerm);
+		contentEl.createEl('h2', {
+			text: 'Export footnotes'
+		});
+		contentEl.createEl('p', {
+			text: `Exports ${this.footnoteCount} footnote(s) with their label, text, reference lines, section heading and status.`,
+			cls: 'renumber-description'
+		});
 
-		if (filteredGroups.length === 0) {
-			footnotesList.createEl('div', {
-				text: 'No matching footnotes found',
-				cls: 'footnotes-empty'
+		const optionsSection = contentEl.createEl('div', {
+			cls: 'renumber-issue-section'
+		});
+		const createSelect = (labelText: string, options: Array < { value: string, text: string } > ) => {
+			const container = optionsSection.createEl('label', {
+				cls: 'renumber-checkbox-container'
 			});
-			return;
-		}
+			container.createEl('span', {
+				text: labelText,
+				cls: 'renumber-checkbox-label'
+			});
+			const select = container.createEl('select', {
+				cls: 'dropdown'
+			});
+			options.forEach(option => {
+				select.createEl('option', {
+					value: option.value,
+					text: option.text
+				});
+			});
+			return select;
+		};
 
-		filteredGroups.forEach(group => {
-			this.renderFootnoteGroup(group, footnotesList, 0);
+		const formatSelect = createSelect('Format: ', [{
+			value: 'csv',
+			text: 'CSV'
+		}, {
+			value: 'json',
+			text: 'JSON'
+		}, {
+			value: 'markdown',
+			text: 'Markdown table'
+		}]);
+		const destinationSelect = createSelect('Destination: ', [{
+			value: 'clipboard',
+			text: 'Copy to clipboard'
+		}, {
+			value: 'note',
+			text: 'New note'
+		}]);
+
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
+		});
+		const exportBtn = buttonContainer.createEl('button', {
+			text: 'Export',
+			cls: 'mod-cta'
+		});
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
 		});
-	}
 
-	private filterGroupsRecursively(groups: FootnoteGroup[], searchTerm: string): FootnoteGroup[] {
-		const filtered: FootnoteGroup[] = [];
+		exportBtn.onclick = () => {
+			this.onExport(formatSelect.value as FootnoteExportFormat, destinationSelect.value as FootnoteExportDestination);
+			this.close();
+		};
+		cancelBtn.onclick = () => {
+			this.close();
+		};
+	}
 
-		groups.forEach(group => {
-			const headerMatches = group.header?.text.toLowerCase().includes(searchTerm) || false;
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+	}
+}
 
-			const matchingFootnotes = group.footnotes.filter(footnote =>
-				footnote.content.toLowerCase().includes(searchTerm) ||
-				footnote.number.toLowerCase().includes(searchTerm)
-			);
+// Modal summarizing a renumbering across all files of the manuscript before it is applied
+class ManuscriptRenumberModal extends Modal {
+	private filePlans: ManuscriptFilePlan[];
+	private onConfirm: () => void;
 
-			const filteredChildren = group.children ?
-				this.filterGroupsRecursively(group.children, searchTerm) : [];
+	constructor(app: App, filePlans: ManuscriptFilePlan[], onConfirm: () => void) {
+		super(app);
+		this.filePlans = filePlans;
+		this.onConfirm = onConfirm;
+	}
 
-			if (headerMatches || matchingFootnotes.length > 0 || filteredChildren.length > 0) {
-				const filteredGroup: FootnoteGroup = {
-					header: group.header,
-					footnotes: headerMatches ? group.footnotes : matchingFootnotes,
-					children: filteredChildren.length > 0 ? filteredChildren : undefined,
-					parent: group.parent,
-					isCollapsed: false,
-					isUnreferencedGroup: group.isUnreferencedGroup
-				};
+	onOpen() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
 
-				filtered.push(filteredGroup);
-			}
+		contentEl.createEl('h2', {
+			text: 'Renumber manuscript footnotes'
 		});
-
-		return filtered;
-	}
-
-	private renderListView(footnotes: FootnoteData[], container: Element) {
-		this.debug('Rendering list view with', footnotes.length, 'footnotes');
-
-		// Sort footnotes by their first reference position (document order), unreferenced at end
-		const sortedFootnotes = [...footnotes].sort((a, b) => {
-			if (a.isUnreferenced && !b.isUnreferenced) return 1;
-			if (!a.isUnreferenced && b.isUnreferenced) return -1;
-			if (a.isUnreferenced && b.isUnreferenced) return 0;
-
-			const aFirstRef = a.references[0];
-			const bFirstRef = b.references[0];
-			if (!aFirstRef || !bFirstRef) return 0;
-			return aFirstRef.startPos - bFirstRef.startPos;
+		contentEl.createEl('p', {
+			text: `Footnotes are numbered continuously across ${this.filePlans.length} note(s), each note continuing after the previous one. Named labels are kept.`,
+			cls: 'renumber-description'
 		});
 
-		sortedFootnotes.forEach((footnote, index) => {
-			const footnoteContainer = container.createEl('div', {
-				cls: 'footnote-list-item'
+		const table = contentEl.createEl('table', {
+			cls: 'renumber-preview-table'
+		});
+		const headerRow = table.createEl('tr');
+		['Note', 'Numbers', 'Changed lines'].forEach(text => headerRow.createEl('th', {
+			text
+		}));
+		this.filePlans.forEach(filePlan => {
+			const row = table.createEl('tr');
+			row.createEl('td', {
+				text: filePlan.file.basename,
+				attr: {
+					title: filePlan.file.path
+				}
 			});
-
-			const sequenceEl = footnoteContainer.createEl('div', {
-				cls: 'footnote-sequence',
-				text: `${index + 1}.`
+			row.createEl('td', {
+				text: filePlan.count === 0 ? '—' : `${filePlan.firstNumber}–${filePlan.firstNumber + filePlan.count - 1}`
+			});
+			row.createEl('td', {
+				text: filePlan.plan.lineChanges.length.toString()
 			});
-
-			this.createFootnoteElement(footnote, footnoteContainer);
 		});
 
-		this.debug('List view rendered successfully');
-	}
-
-	private renderFootnoteGroup(group: FootnoteGroup, container: Element, depth: number) {
-		const headerSection = container.createEl('div', {
-			cls: 'footnote-header-section'
+		const warning = contentEl.createEl('p', {
+			cls: 'renumber-warning'
 		});
-		headerSection.style.marginLeft = `${depth * 12}px`;
+		warning.innerHTML = '<strong>Warning:</strong> This edits several notes at once. Notes open in an editor can be reverted with undo there; other notes are saved directly.';
 
-		const headerEl = headerSection.createEl('div', {
-			cls: 'footnote-header'
+		const buttonContainer = contentEl.createEl('div', {
+			cls: 'renumber-buttons'
 		});
-
-		// Add special styling for unreferenced group
-		if (group.header && group.header.line === -1) {
-			headerEl.addClass('footnote-unreferenced-header');
-		}
-
-		const collapseIcon = headerEl.createEl('span', {
-			cls: 'footnote-collapse-icon'
+		const confirmBtn = buttonContainer.createEl('button', {
+			text: 'Renumber',
+			cls: 'mod-cta'
 		});
-		const hasChildren = (group.children && group.children.length > 0) || group.footnotes.length > 0;
-
-		if (hasChildren) {
-			setIcon(collapseIcon, group.isCollapsed ? 'chevron-right' : 'chevron-down');
-			collapseIcon.style.visibility = 'visible';
-		} else {
-			collapseIcon.style.visibility = 'hidden';
-		}
-
-		const headerText = headerEl.createEl('span', {
-			cls: 'footnote-header-text'
+		const cancelBtn = buttonContainer.createEl('button', {
+			text: 'Cancel'
 		});
-		if (group.header) {
-			const totalFootnotes = this.countTotalFootnotes(group);
-			if (totalFootnotes > 0) {
-				headerText.textContent = `${group.header.text} (${totalFootnotes})`;
-			} else {
-				headerText.textContent = group.header.text;
-			}
-		} else {
-			headerText.textContent = `No Header (${group.footnotes.length})`;
-		}
 
-		const groupContent = headerSection.createEl('div', {
-			cls: 'footnote-group-content'
-		});
-		if (group.isCollapsed) {
-			groupContent.style.display = 'none';
-		}
+		confirmBtn.onclick = () => {
+			this.onConfirm();
+			this.close();
+		};
+		cancelBtn.onclick = () => {
+			this.close();
+		};
+	}
 
-		if (hasChildren) {
-			this.renderedGroups.push({
-				group: group,
-				collapseIcon: collapseIcon,
-				contentElement: groupContent
-			});
-		}
+	onClose() {
+		const {
+			contentEl
+		} = this;
+		contentEl.empty();
+	}
+}
 
-		if (hasChildren) {
-			collapseIcon.addEventListener('click', (e) => {
-				this.debug('Collapse icon clicked for group:', group.header?.text || 'No Header');
-				e.preventDefault();
-				e.stopPropagation();
-				this.toggleGroupCollapse(group, collapseIcon, groupContent);
-			});
-		}
+// Autocomplete for footnote labels after typing `[^`
+class FootnoteSuggest extends EditorSuggest < FootnoteSuggestion > {
+	plugin: FootnotesManagerPlugin;
 
-		// Handle click events for headers (skip for unreferenced group since it's virtual)
-		if (group.header && group.header.line !== -1) {
-			headerText.addEventListener('click', (e) => {
-				this.debug('Header text clicked, navigating to:', group.header!.text);
-				e.preventDefault();
-				e.stopPropagation();
+	constructor(app: App, plugin: FootnotesManagerPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = 50;
+	}
 
-				this.plugin.skipNextRefresh = true;
-				this.plugin.highlightHeaderInEditor(group.header!);
+	onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+		const beforeCursor = editor.getLine(cursor.line).substring(0, cursor.ch);
+		const match = beforeCursor.match(/\[\^([\w-]*)$/);
+		if (!match) return null;
 
-				setTimeout(() => {
-					this.plugin.skipNextRefresh = false;
-				}, 100);
+		const start = {
+			line: cursor.line,
+			ch: cursor.ch - match[0].length
+		};
+		// Don't suggest while typing a definition label or inside code, math and comments
+		if (start.ch === 0 && editor.getLine(cursor.line).substring(cursor.ch).startsWith(']:')) return null;
+		const parser = new FootnoteParser(editor.getValue());
+		if (parser.isExcluded(editor.posToOffset(start))) return null;
 
-				return false;
-			});
+		// Swallow the closing bracket that Obsidian inserts when auto-pairing
+		const end = editor.getLine(cursor.line).charAt(cursor.ch) === ']' ? {
+			line: cursor.line,
+			ch: cursor.ch + 1
+		} : cursor;
 
-			headerEl.addEventListener('click', (e) => {
-				if (e.target === collapseIcon || e.target === headerText) {
-					return;
+		return {
+			start,
+			end,
+			query: match[1]
+		};
+	}
+
+	getSuggestions(context: EditorSuggestContext): FootnoteSuggestion[] {
+		const {
+			referencedFootnotes,
+			unreferencedFootnotes
+		} = this.plugin.extractFootnotesWithUnreferenced(context.editor.getValue());
+		const footnotes = [...referencedFootnotes, ...unreferencedFootnotes];
+
+		let suggestions: FootnoteSuggestion[];
+		if (!context.query) {
+			suggestions = footnotes
+				.sort((a, b) => a.definition.startPos - b.definition.startPos)
+				.map(footnote => ({
+					footnote,
+					score: 0
+				}));
+		} else {
+			const search = prepareFuzzySearch(context.query);
+			suggestions = [];
+			footnotes.forEach(footnote => {
+				const result = search(`${footnote.number} ${footnote.content}`);
+				if (result) {
+					suggestions.push({
+						footnote,
+						score: result.score
+					});
 				}
-				e.preventDefault();
-				e.stopPropagation();
-				return false;
 			});
+			suggestions.sort((a, b) => b.score - a.score);
 		}
 
-		if (group.footnotes.length > 0) {
-			const groupFootnotes = groupContent.createEl('div', {
-				cls: 'footnote-group-footnotes'
-			});
-			group.footnotes.forEach(footnote => {
-				this.createFootnoteElement(footnote, groupFootnotes);
-			});
-		}
+		suggestions = suggestions.slice(0, this.limit - 1);
+		suggestions.push({
+			footnote: null,
+			score: 0
+		});
+		return suggestions;
+	}
 
-		if (group.children) {
-			group.children.forEach(childGroup => {
-				this.renderFootnoteGroup(childGroup, groupContent, depth + 1);
+	renderSuggestion(suggestion: FootnoteSuggestion, el: HTMLElement) {
+		el.addClass('footnote-suggestion');
+		if (!suggestion.footnote) {
+			el.addClass('footnote-suggestion-new');
+			el.createEl('span', {
+				cls: 'footnote-suggestion-label',
+				text: 'New footnote…'
 			});
+			return;
 		}
+
+		el.createEl('span', {
+			cls: 'footnote-suggestion-label',
+			text: `[^${suggestion.footnote.number}]`
+		});
+		el.createEl('span', {
+			cls: 'footnote-suggestion-content',
+			text: suggestion.footnote.content.replace(/\s+/g, ' ') || '(empty footnote)'
+		});
 	}
 
-	private countTotalFootnotes(group: FootnoteGroup): number {
-		let total = group.footnotes.length;
-		if (group.children) {
-			group.children.forEach((child: FootnoteGroup) => {
-				total += this.countTotalFootnotes(child);
+	selectSuggestion(suggestion: FootnoteSuggestion) {
+		if (!this.context) return;
+		const {
+			editor,
+			start,
+			end
+		} = this.context;
+
+		if (!suggestion.footnote) {
+			this.plugin.insertFootnote(editor, {
+				from: start,
+				to: end
 			});
+			return;
 		}
-		return total;
-	}
 
-	private toggleGroupCollapse(group: FootnoteGroup, icon: Element, content: HTMLElement) {
-		group.isCollapsed = !group.isCollapsed;
+		const reference = `[^${suggestion.footnote.number}]`;
+		editor.replaceRange(reference, start, end);
+		editor.setCursor({
+			line: start.line,
+			ch: start.ch + reference.length
+		});
+	}
+}
 
-		if (group.isCollapsed) {
-			setIcon(icon as HTMLElement, 'chevron-right');
-			content.style.display = 'none';
-		} else {
-			setIcon(icon as HTMLElement, 'chevron-down');
-			content.style.display = 'block';
-			this.hasManualExpansions = true;
-		}
+// Asks the diagnostics plugin to re-parse the document after a pause in editing
+const refreshFootnoteDiagnostics = StateEffect.define < null > ();
 
-		if (group.isCollapsed && group.children) {
-			this.collapseAllChildren(group);
-		}
+// Underlines references without a definition and definitions that are never referenced
+class FootnoteDiagnosticsPlugin implements PluginValue {
+	plugin: FootnotesManagerPlugin;
+	decorations: DecorationSet;
+	private view: EditorView;
+	private rebuildTimer: number | null = null;
+	private rebuildDelay = 300;
 
-		this.debug('Group toggled, hasManualExpansions:', this.hasManualExpansions);
+	constructor(view: EditorView, plugin: FootnotesManagerPlugin) {
+		this.plugin = plugin;
+		this.view = view;
+		this.decorations = this.buildDecorations(view);
 	}
 
-	private toggleAllGroups(toggleBtn: HTMLElement) {
-		this.debug('toggleAllGroups called, current state:', this.isCollapsed);
-
-		if (this.isCollapsed) {
-			this.debug('Expanding all groups');
-			this.expandAllGroups([]);
-			this.hasManualExpansions = false;
-		} else {
-			this.debug('Collapsing all groups to top level overview');
-			this.collapseAllGroups([]);
-			this.hasManualExpansions = false;
+	update(update: ViewUpdate) {
+		if (update.transactions.some(tr => tr.effects.some(effect => effect.is(refreshFootnoteDiagnostics)))) {
+			this.decorations = this.buildDecorations(update.view);
+			return;
 		}
 
-		this.isCollapsed = !this.isCollapsed;
-		this.updateToggleButton(toggleBtn);
-
-		this.debug('toggleAllGroups completed, new state:', this.isCollapsed);
+		if (update.docChanged) {
+			// Keep the existing underlines in place while typing and re-parse once the edits settle
+			this.decorations = this.decorations.map(update.changes);
+			this.scheduleRebuild();
+		}
 	}
 
-	private updateToggleButton(toggleBtn: HTMLElement) {
-		if (this.isCollapsed) {
-			setIcon(toggleBtn, 'plus');
-			toggleBtn.setAttribute('title', 'Expand all sections');
-		} else {
-			setIcon(toggleBtn, 'minus');
-			toggleBtn.setAttribute('title', 'Collapse all sections');
+	destroy() {
+		if (this.rebuildTimer !== null) {
+			window.clearTimeout(this.rebuildTimer);
+			this.rebuildTimer = null;
 		}
 	}
 
-	private collapseAllGroups(allGroups: FootnoteGroup[]) {
-		this.debug('Collapsing all groups to top level overview');
-
-		this.renderedGroups.forEach(rendered => {
-			const hasContent = (rendered.group.children && rendered.group.children.length > 0) || rendered.group.footnotes.length > 0;
-
-			if (hasContent) {
-				rendered.group.isCollapsed = true;
-				setIcon(rendered.collapseIcon as HTMLElement, 'chevron-right');
-				rendered.contentElement.style.display = 'none';
-			}
-		});
+	private scheduleRebuild() {
+		if (this.rebuildTimer !== null) {
+			window.clearTimeout(this.rebuildTimer);
+		}
+		this.rebuildTimer = window.setTimeout(() => {
+			this.rebuildTimer = null;
+			this.view.dispatch({
+				effects: refreshFootnoteDiagnostics.of(null)
+			});
+		}, this.rebuildDelay);
 	}
 
-	private expandAllGroups(allGroups: FootnoteGroup[]) {
-		this.debug('Expanding all groups');
-		this.renderedGroups.forEach(rendered => {
-			rendered.group.isCollapsed = false;
-			setIcon(rendered.collapseIcon as HTMLElement, 'chevron-down');
-			rendered.contentElement.style.display = 'block';
+	private buildDecorations(view: EditorView): DecorationSet {
+		// One parse serves both checks
+		const parser = new FootnoteParser(view.state.doc.toString());
+		const definitions = parser.getDefinitions();
+		const references = parser.getReferences();
+		const definedLabels = new Set(definitions.map(definition => definition.number));
+		const referencedLabels = new Set(references.map(reference => reference.number));
+		const ranges: Array < { from: number, to: number, cls: string, title: string } > = [];
+
+		references.forEach(ref => {
+			if (definedLabels.has(ref.number)) return;
+			ranges.push({
+				from: ref.startPos,
+				to: ref.endPos,
+				cls: 'footnote-orphaned-underline',
+				title: `Footnote [^${ref.number}] has no definition`
+			});
 		});
-	}
 
-	private collapseAllChildren(group: FootnoteGroup) {
-		if (group.children) {
-			group.children.forEach((child: FootnoteGroup) => {
-				child.isCollapsed = true;
-				this.collapseAllChildren(child);
+		definitions.forEach(definition => {
+			if (referencedLabels.has(definition.number)) return;
+			ranges.push({
+				from: definition.startPos,
+				to: definition.startPos + `[^${definition.number}]`.length,
+				cls: 'footnote-unreferenced-underline',
+				title: `Footnote [^${definition.number}] is never referenced`
 			});
-		}
-	}
-
-	// UPDATED: createFootnoteElement with unreferenced handling
-	private createFootnoteElement(footnote: FootnoteData, container: Element) {
-		const footnoteEl = container.createEl('div', {
-			cls: 'footnote-item'
 		});
 
-		// NEW: Add unreferenced class if applicable
-		if (footnote.isUnreferenced) {
-			footnoteEl.addClass('footnote-unreferenced');
-		}
+		const builder = new RangeSetBuilder < Decoration > ();
+		ranges.sort((a, b) => a.from - b.from).forEach(range => {
+			builder.add(range.from, range.to, Decoration.mark({
+				class: range.cls,
+				attributes: {
+					title: range.title
+				}
+			}));
+		});
+		return builder.finish();
+	}
+}
 
-		// Footnote number and reference count/status
-		const headerEl = footnoteEl.createEl('div', {
-			cls: 'footnote-header-info'
-		});
+// FootnotesView Class
+class FootnotesView extends ItemView {
+	plugin: FootnotesManagerPlugin;
+	private currentFile: TFile | null = null;
+	private renderedGroups: RenderedGroup[] = [];
+	private isCollapsed: boolean = false;
+	private hasManualExpansions: boolean = false;
+	private isNavigating: boolean = false;
+	private pendingNavigation: string | null = null;
+	private isListView: boolean = false;
+	private isManuscriptView = false;
+	// Bumped on every render so a manuscript render still reading files stops once it is outdated
+	private renderId = 0;
+	private cursorListener?: () => void;
+	private lastCursorCheck: number = 0;
+	private cursorThrottleDelay: number = 300;
+	private isProcessingCursor: boolean = false;
+	private jumpingToFootnote: string | null = null;
+	private lastJumpTime: number = 0;
+	private jumpThrottleDelay: number = 500;
+	private lastCheckedFootnote: string | null = null;
+	private cursorCheckInProgress: boolean = false;
+	private problemsCollapsed = false;
+	// Footnotes to open in edit mode on the next render, e.g. copies made by splitting
+	private pendingEditLabels = new Set < string > ();
+	// Footnote sequence of each chapter under chapter numbering, keyed by the line of its heading
+	private chapterSequences = new Map < number, { chapter: number, numbers: number[], gaps: string[] } > ();
 
-		const numberContainer = headerEl.createEl('div', {
-			cls: 'footnote-number-container'
-		});
-		const numberEl = numberContainer.createEl('span', {
-			cls: 'footnote-number',
-			text: `[${footnote.number}]`
-		});
+	constructor(leaf: WorkspaceLeaf, plugin: FootnotesManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.isCollapsed = plugin.settings.defaultCollapsed;
+	}
 
-		// NEW: Add copy icon for multi-section footnotes
-		if (footnote.isMultiSection) {
-			const copyIcon = numberContainer.createEl('span', {
-				cls: 'footnote-multi-section-icon',
-				attr: {
-					title: `This footnote appears in ${footnote.appearanceCount} sections`
-				}
-			});
-			setIcon(copyIcon, 'copy');
+	private debug(message: string, ...args: any[]) {
+		if (this.plugin.settings.debugMode) {
+			console.log(`[Footnotes View] ${message}`, ...args);
 		}
+	}
 
-		// NEW: Show "Unreferenced" instead of reference count for unreferenced footnotes
-		const countEl = headerEl.createEl('span', {
-			cls: footnote.isUnreferenced ? 'footnote-unreferenced-indicator' : 'footnote-ref-count',
-			text: footnote.isUnreferenced ? 'Unreferenced' : `${footnote.referenceCount} ref${footnote.referenceCount !== 1 ? 's' : ''}`
-		});
-
-		const contentEl = footnoteEl.createEl('div', {
-			cls: 'footnote-content'
-		});
+	getViewType() {
+		return FOOTNOTES_VIEW_TYPE;
+	}
 
-		const isMultiLine = footnote.content.includes('\n');
+	getDisplayText() {
+		return 'Footnotes';
+	}
 
-		let textEl: HTMLElement;
-		let displayEl: HTMLElement;
+	getIcon() {
+		return 'hash';
+	}
 
-		if (isMultiLine) {
-			displayEl = contentEl.createEl('div', {
-				cls: 'footnote-text footnote-display'
-			});
+	async onOpen() {
+		this.refresh();
+	}
 
-			textEl = contentEl.createEl('textarea', {
-				cls: 'footnote-text footnote-textarea footnote-edit',
-				attr: {
-					spellcheck: 'false',
-					rows: (footnote.content.split('\n').length + 1).toString()
-				}
-			}) as HTMLTextAreaElement;
-			(textEl as HTMLTextAreaElement).value = footnote.content || '';
+	async onClose() {
+		// Clean up cursor listener
+		this.removeCursorListener();
+	}
 
-			textEl.style.display = 'none';
-		} else {
-			displayEl = contentEl.createEl('div', {
-				cls: 'footnote-text footnote-display'
-			});
+	refresh() {
+		this.debug('FootnotesView.refresh called');
 
-			textEl = contentEl.createEl('div', {
-				cls: 'footnote-text footnote-edit',
-				attr: {
-					contenteditable: 'true',
-					spellcheck: 'false'
-				}
-			});
-			textEl.textContent = footnote.content || '(empty footnote)';
+		const now = Date.now();
+		const skipCheckTimestamp = (this as any).skipCheckTimestamp || 0;
+		const lastRefreshCheck = (this as any).lastRefreshCheck || 0;
+		const timeSinceSkipCheck = now - skipCheckTimestamp;
+		const timeSinceLastRefresh = now - lastRefreshCheck;
 
-			textEl.style.display = 'none';
+		if (this.plugin.skipNextRefresh || now < this.plugin.skipRefreshUntil) {
+			this.debug('Skipping FootnotesView refresh due to plugin skip flags');
+			return;
 		}
 
-		this.renderFootnoteMarkdown(footnote.content || '(empty footnote)', displayEl);
+		if (timeSinceSkipCheck < 100 && this.plugin.skipRefreshUntil > now - 2000) {
+			this.debug('Skipping FootnotesView refresh - too soon after skip check');
+			return;
+		}
 
-		const currentSearchTerm = (this as any).currentSearchTerm || '';
-		if (currentSearchTerm && footnote.content.toLowerCase().includes(currentSearchTerm)) {
-			this.highlightSearchInElement(displayEl, currentSearchTerm);
+		if (this.isNavigating || this.plugin.isNavigating) {
+			this.debug('Skipping FootnotesView refresh - currently navigating');
+			return;
 		}
 
-		// NEW: Only show references section for referenced footnotes
-		if (!footnote.isUnreferenced && footnote.references.length > 0) {
-			const referencesEl = contentEl.createEl('div', {
-				cls: 'footnote-references'
-			});
-			referencesEl.createEl('span', {
-				cls: 'footnote-references-label',
-				text: 'References:'
-			});
+		if (timeSinceLastRefresh < 100 && this.plugin.skipRefreshUntil > now - 3000) {
+			this.debug('Skipping FootnotesView refresh - too frequent');
+			return;
+		}
 
-			footnote.references.forEach((ref, index) => {
-				const refEl = referencesEl.createEl('button', {
-					cls: 'footnote-reference-btn',
-					text: `Line ${ref.line + 1}`,
-					attr: {
-						title: `Go to reference ${index + 1} on line ${ref.line + 1}`
-					}
-				});
+		(this as any).lastRefreshCheck = now;
 
-				refEl.addEventListener('click', (e) => {
-				    e.stopPropagation();
-				    e.preventDefault();
-    
-				    this.debug('Reference button clicked for footnote:', footnote.number, 'index:', index);
-    
-				    // Ensure we have the current file reference
-				    this.debug('Refreshing current file reference before navigation');
-				    const activeFile = this.app.workspace.getActiveFile();
-				    if (activeFile) {
-				        this.currentFile = activeFile;
-				        this.debug('Updated currentFile to active file:', activeFile.path);
-				    }
-    
-				    // Set a focused skip period to prevent interference
-				    this.plugin.setSkipRefreshPeriod(1500);
-    
-				    // Call the navigation method directly without any delays
-				    this.plugin.highlightFootnoteInEditor(footnote, index);
-				});
-			});
-		}
+		this.debug('Proceeding with FootnotesView refresh');
+		const container = this.containerEl.children[1] as HTMLElement;
+		const currentScroll = container.scrollTop;
+		this.debug('Saved current scroll position before refresh:', currentScroll);
+		const renderId = ++this.renderId;
+		container.empty();
 
-		// NEW: Add definition navigation section (for all footnotes)
-		const definitionSection = contentEl.createEl('div', {
-			cls: 'footnote-definition'
+		const header = container.createEl('div', {
+			cls: 'footnotes-header'
+		});
+		const titleRow = header.createEl('div', {
+			cls: 'footnotes-title-row'
+		});
+		titleRow.createEl('h4', {
+			text: 'Footnotes',
+			cls: 'footnotes-title'
 		});
-		definitionSection.createEl('span', {
-			cls: 'footnote-definition-label',
-			text: 'Definition:'
+
+		const controlsContainer = titleRow.createEl('div', {
+			cls: 'footnotes-controls'
 		});
-		const defBtn = definitionSection.createEl('button', {
-			cls: 'footnote-reference-btn',
-			text: `Line ${footnote.definition.line + 1}`,
+
+		const navBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn nav-btn',
 			attr: {
-				title: `Go to definition on line ${footnote.definition.line + 1}`
+				title: 'Jump to footnotes section'
 			}
 		});
-		defBtn.addEventListener('click', (e) => {
-			e.stopPropagation();
-			e.preventDefault();
-			this.plugin.setSkipRefreshPeriod(2000);
-			this.jumpToFootnoteDefinition(footnote);
-		});
+		setIcon(navBtn, 'footprints');
 
-		// Action buttons container
-		const actionsEl = footnoteEl.createEl('div', {
-			cls: 'footnote-actions'
+		const returnBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn return-btn',
+			attr: {
+				title: 'Return to last edit position'
+			}
 		});
+		setIcon(returnBtn, 'file-text');
 
-		// NEW: Show save/cancel buttons for all footnotes (enable editing for unreferenced too)
-		let saveBtn: HTMLButtonElement | undefined;
-		let cancelBtn: HTMLButtonElement | undefined;
+		const renumberBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn renumber-btn',
+			attr: {
+				title: 'Renumber footnotes (remove gaps)'
+			}
+		});
+		setIcon(renumberBtn, 'list-ordered');
 
-		saveBtn = actionsEl.createEl('button', {
-			text: 'Save',
-			cls: 'footnote-btn footnote-save-btn'
+		const duplicatesBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn duplicates-btn',
+			attr: {
+				title: 'Find footnotes with duplicate content'
+			}
 		});
-		saveBtn.style.display = 'none';
+		setIcon(duplicatesBtn, 'copy');
 
-		cancelBtn = actionsEl.createEl('button', {
-			text: 'Cancel',
-			cls: 'footnote-btn footnote-cancel-btn'
+		const exportBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn export-btn',
+			attr: {
+				title: 'Export footnotes'
+			}
+		});
+		setIcon(exportBtn, 'download');
+		exportBtn.addEventListener('click', () => {
+			const editor = this.plugin.getTargetEditor();
+			if (!editor) {
+				new Notice('No markdown editor found. Please click in a markdown document first.');
+				return;
+			}
+			this.plugin.openExportFootnotesModal(editor.getValue(), this.currentFile);
 		});
-		cancelBtn.style.display = 'none';
 
-		// Delete button (always present)
-		const deleteBtn = actionsEl.createEl('button', {
-			cls: 'footnote-btn footnote-delete-btn',
+		const listViewBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn list-view-btn',
 			attr: {
-				title: 'Delete footnote'
+				title: 'Toggle between outline and list view'
 			}
 		});
-		deleteBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 6h18M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2m3 0v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6h14zM10 11v6M14 11v6"/></svg>`;
+		setIcon(listViewBtn, this.isListView ? 'list' : 'list-tree');
 
-		let originalText = footnote.content;
-		let isEditing = false;
+		const manuscriptBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn manuscript-btn',
+			attr: {
+				title: this.isManuscriptView ? 'Show footnotes of the current note' : 'Show the whole manuscript, grouped by note'
+			}
+		});
+		setIcon(manuscriptBtn, this.isManuscriptView ? 'file-text' : 'book-open');
+		manuscriptBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.isManuscriptView = !this.isManuscriptView;
+			this.refresh();
+		};
 
-		// NEW: Setup editing for all footnotes
-		if (saveBtn && cancelBtn) {
-			const handleInput = () => {
-				if (!isEditing) {
-					isEditing = true;
-					saveBtn!.style.display = 'inline-block';
-					cancelBtn!.style.display = 'inline-block';
-					deleteBtn.style.display = 'none';
-					footnoteEl.addClass('footnote-editing');
+		let toggleAllBtn: HTMLButtonElement | undefined;
+		if (!this.isListView) {
+			toggleAllBtn = controlsContainer.createEl('button', {
+				cls: 'footnotes-toggle-btn',
+				attr: {
+					title: 'Toggle collapse/expand all sections'
 				}
-			};
-
-			if (textEl.tagName === 'TEXTAREA') {
-				(textEl as HTMLTextAreaElement).addEventListener('input', handleInput);
-
-				const autoResize = () => {
-					const textarea = textEl as HTMLTextAreaElement;
-					textarea.style.height = 'auto';
-					textarea.style.height = textarea.scrollHeight + 'px';
-				};
-
-				(textEl as HTMLTextAreaElement).addEventListener('input', autoResize);
-				setTimeout(autoResize, 0);
-			} else {
-				textEl.addEventListener('input', handleInput);
-			}
-
-			const handleKeydown = (e: KeyboardEvent) => {
-				if (e.key === 'Enter' && !e.shiftKey && textEl.tagName !== 'TEXTAREA') {
-					e.preventDefault();
-					saveFootnote();
-				} else if (e.key === 'Enter' && e.ctrlKey && textEl.tagName === 'TEXTAREA') {
-					e.preventDefault();
-					saveFootnote();
-				} else if (e.key === 'Escape') {
-					e.preventDefault();
-					cancelEdit();
-				}
-			};
-
-			textEl.addEventListener('keydown', handleKeydown);
-
-			const saveFootnote = () => {
-				let newText: string;
-				if (textEl.tagName === 'TEXTAREA') {
-					newText = (textEl as HTMLTextAreaElement).value.trim();
-				} else {
-					newText = textEl.textContent?.trim() || '';
-				}
-
-				if (newText !== originalText) {
-					this.updateFootnoteInEditor(footnote, newText);
-					originalText = newText;
-
-					this.renderFootnoteMarkdown(newText, displayEl);
-				}
-				exitEditMode();
-			};
-
-			const cancelEdit = () => {
-				if (textEl.tagName === 'TEXTAREA') {
-					(textEl as HTMLTextAreaElement).value = originalText;
-				} else {
-					textEl.textContent = originalText;
-				}
-				exitEditMode();
-			};
-
-			const exitEditMode = () => {
-				// Save scroll position before exiting edit mode
-				const scrollContainer = this.containerEl.children[1] as HTMLElement;
-				const currentScroll = scrollContainer.scrollTop;
-
-				isEditing = false;
-				saveBtn!.style.display = 'none';
-				cancelBtn!.style.display = 'none';
-				deleteBtn.style.display = 'inline-block';
-				footnoteEl.removeClass('footnote-editing');
-
-				displayEl.style.display = 'block';
-				textEl.style.display = 'none';
-				textEl.blur();
-
-				// Restore scroll position after layout change
-				setTimeout(() => {
-					scrollContainer.scrollTop = currentScroll;
-				}, 50);
-			};
-
-			const enterEditMode = () => {
-				// Save scroll position before entering edit mode
-				const scrollContainer = this.containerEl.children[1] as HTMLElement;
-				const currentScroll = scrollContainer.scrollTop;
-				const footnoteRect = footnoteEl.getBoundingClientRect();
-				const containerRect = scrollContainer.getBoundingClientRect();
-				const relativeTop = footnoteRect.top - containerRect.top + currentScroll;
-
-				this.debug('Entering edit mode, saving scroll position:', currentScroll, 'relativeTop:', relativeTop);
-
-				isEditing = true;
-				saveBtn!.style.display = 'inline-block';
-				cancelBtn!.style.display = 'inline-block';
-				deleteBtn.style.display = 'none';
-				footnoteEl.addClass('footnote-editing');
-
-				displayEl.style.display = 'none';
-				textEl.style.display = 'block';
-				textEl.focus();
-
-				if (textEl.tagName === 'TEXTAREA') {
-					(textEl as HTMLTextAreaElement).select();
-				} else {
-					const range = document.createRange();
-					range.selectNodeContents(textEl);
-					const selection = window.getSelection();
-					if (selection) {
-						selection.removeAllRanges();
-						selection.addRange(range);
-					}
-				}
-
-				// Restore scroll position after layout change
-				setTimeout(() => {
-					scrollContainer.scrollTop = relativeTop - (containerRect.height / 3); // Center footnote in view
-					this.debug('Restored scroll position after entering edit mode:', scrollContainer.scrollTop);
-				}, 100); // Increased delay to ensure layout stabilizes
-			};
-
-			saveBtn.addEventListener('click', (e) => {
-				e.stopPropagation();
-				saveFootnote();
-			});
-
-			cancelBtn.addEventListener('click', (e) => {
-				e.stopPropagation();
-				cancelEdit();
-			});
-
-			// Click to edit functionality for all footnotes
-			footnoteEl.addEventListener('click', (e) => {
-				e.preventDefault();
-				e.stopPropagation();
-
-				this.debug('Footnote clicked, isEditing:', isEditing, 'target:', e.target);
-
-				if (isEditing) {
-					this.debug('Already in edit mode, ignoring click');
-					return;
-				}
-
-				const target = e.target as HTMLElement;
-				if (target.tagName === 'BUTTON' || target.closest('button')) {
-					this.debug('Click was on button, ignoring');
-					return;
-				}
-
-				if (target === displayEl || displayEl.contains(target)) {
-					this.debug('Clicked on display element, entering edit mode');
-					enterEditMode();
-					return;
-				}
-
-				if (target === textEl) {
-					this.debug('Clicked on text element, entering edit mode');
-					enterEditMode();
-					return;
-				}
-
-				this.debug('Click was on non-editable area, no action taken but prevent default/bubble');
 			});
+			setIcon(toggleAllBtn, this.isCollapsed ? 'plus' : 'minus');
 		}
 
-		deleteBtn.addEventListener('click', (e) => {
-			e.stopPropagation();
-
-			// NEW: Different confirmation messages for unreferenced vs referenced footnotes
-			let confirmMessage;
-			if (footnote.isUnreferenced) {
-				confirmMessage = `Are you sure you want to delete unreferenced footnote [${footnote.number}]?\n\nThis will delete the footnote definition.`;
-			} else if (footnote.referenceCount === 1) {
-				confirmMessage = `Are you sure you want to delete footnote [${footnote.number}]?\n\nThis will delete both the reference and the footnote definition.`;
-			} else {
-				confirmMessage = `Are you sure you want to delete footnote [${footnote.number}]?\n\nThis footnote has ${footnote.referenceCount} references. Only the first reference will be deleted. The footnote definition will be preserved.`;
-			}
-
-			const confirmDelete = confirm(confirmMessage);
-			if (confirmDelete) {
-				this.deleteFootnoteFromEditor(footnote);
+		const searchContainer = header.createEl('div', {
+			cls: 'footnotes-search-container'
+		});
+		const searchInput = searchContainer.createEl('input', {
+			type: 'text',
+			cls: 'footnotes-search-input',
+			attr: {
+				placeholder: 'Search footnotes...',
+				spellcheck: 'false'
 			}
 		});
 
-		footnoteEl.addEventListener('mouseleave', () => {
-			footnoteEl.removeClass('footnote-item-hover');
+		const clearSearchBtn = searchContainer.createEl('button', {
+			cls: 'footnotes-clear-search',
+			attr: {
+				title: 'Clear search'
+			}
 		});
-	}
-
-	private jumpToFootnoteDefinition(footnote: FootnoteData) {
-		this.debug('jumpToFootnoteDefinition called for footnote:', footnote.number);
-
-		let activeEditor: Editor | null = null;
-
-		let currentFile = this.app.workspace.getActiveFile();
-		if (!currentFile && this.currentFile) {
-			currentFile = this.currentFile;
-		}
+		setIcon(clearSearchBtn, 'x');
 
-		if (currentFile) {
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === currentFile) {
-					activeEditor = view.editor;
-					break;
+		if (this.isManuscriptView) {
+			searchInput.disabled = true;
+			this.renderManuscriptView(container, renderId).catch(error => {
+				console.error('Footnotes Manager: manuscript view failed', error);
+				if (renderId === this.renderId) {
+					container.createEl('div', {
+						text: 'Could not read the manuscript notes',
+						cls: 'footnotes-empty'
+					});
 				}
-			}
-		}
-
-		if (!activeEditor) {
-			new Notice('Could not find editor to navigate to footnote');
+			});
 			return;
 		}
 
-		const content = activeEditor.getValue();
-		const lines = content.split('\n');
-
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-			if (line.match(new RegExp(`^\\s*\\[\\^${footnote.number}\\]:`))) {
-				this.debug('Found footnote definition at line:', i);
-				activeEditor.setCursor({
-					line: i,
-					ch: 0
-				});
-				activeEditor.scrollIntoView({
-					from: {
-						line: i,
-						ch: 0
-					},
-					to: {
-						line: i,
-						ch: 0
-					}
-				}, true);
-				activeEditor.focus();
-				new Notice(`Jumped to footnote [${footnote.number}] definition`);
-				return;
-			}
-		}
-
-		new Notice(`Could not find definition for footnote [${footnote.number}]`);
-	}
-
-	updateFootnoteInEditor(footnote: FootnoteData, newContent: string) {
-		this.debug('updateFootnoteInEditor called with:', newContent);
-
 		let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		let currentFile = this.app.workspace.getActiveFile();
 
@@ -1595,1703 +2533,5574 @@ class FootnotesView extends ItemView {
 			}
 		}
 
-		if (!activeView) {
-			this.debug('No active view found for updating footnote');
-			return;
+		if (currentFile) {
+			this.currentFile = currentFile;
 		}
 
-		const editor = activeView.editor;
-		const currentContent = editor.getValue();
-		const { referencedFootnotes, unreferencedFootnotes } = this.plugin.extractFootnotesWithUnreferenced(currentContent);
-		const allFootnotes = [...referencedFootnotes, ...unreferencedFootnotes];
-		const matchingFootnote = allFootnotes.find(f => f.number === footnote.number);
-
-		if (!matchingFootnote) {
-			this.debug('Could not find matching footnote in current content');
-			this.refresh();
-			return;
-		}
+		this.setupNavigationButtons(navBtn, returnBtn, renumberBtn, listViewBtn, activeView, currentFile, duplicatesBtn);
 
-		this.debug('Found matching footnote with current positions:', matchingFootnote);
-		this.performFootnoteUpdate(editor, matchingFootnote, newContent);
-	}
+		if (!activeView && !currentFile) {
+			container.createEl('div', {
+				text: 'No active markdown file',
+				cls: 'footnotes-empty'
+			});
+			this.disableControls(toggleAllBtn, navBtn, returnBtn, renumberBtn, searchInput, listViewBtn);
+			container.scrollTop = currentScroll;
+			return;
+		}
 
-	private performFootnoteUpdate(editor: any, footnote: FootnoteData, newContent: string) {
-		const content = editor.getValue();
+		let content = '';
 
-		const beforeDefinition = content.substring(0, footnote.definition.startPos);
-		const afterDefinition = content.substring(footnote.definition.endPos);
+		if (activeView) {
+			content = activeView.editor.getValue();
+			this.processFootnotes(content, container, toggleAllBtn, toggleAllBtn, searchInput, clearSearchBtn, navBtn, returnBtn, renumberBtn, listViewBtn);
+		} else if (currentFile) {
+			this.app.vault.read(currentFile).then(fileContent => {
+				this.processFootnotes(fileContent, container, toggleAllBtn, toggleAllBtn, searchInput, clearSearchBtn, navBtn, returnBtn, renumberBtn, listViewBtn);
+				container.scrollTop = currentScroll;
+			});
+			return;
+		}
 
-		const newDefinition = `[^${footnote.number}]: ${newContent}`;
+		// Restore scroll position after rendering
+		container.scrollTop = currentScroll;
+		this.debug('Restored scroll position after refresh:', container.scrollTop);
+	}
 
-		this.debug('Replacing footnote definition at positions', footnote.definition.startPos, '-', footnote.definition.endPos);
-		this.debug('Old definition:', footnote.definition.fullMatch);
-		this.debug('New definition:', newDefinition);
+	private setupNavigationButtons(
+		navBtn: HTMLButtonElement,
+		returnBtn: HTMLButtonElement,
+		renumberBtn: HTMLButtonElement,
+		listViewBtn: HTMLButtonElement,
+		activeView: MarkdownView | null,
+		currentFile: TFile | null,
+		duplicatesBtn: HTMLButtonElement
+	) {
+		navBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.setSkipRefreshPeriod(1000);
+			setTimeout(() => {
+				this.plugin.jumpToFootnotesSection();
+			}, 10);
+		};
 
-		const newContentFinal = beforeDefinition + newDefinition + afterDefinition;
-		editor.setValue(newContentFinal);
+		returnBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.setSkipRefreshPeriod(1000);
+			setTimeout(() => {
+				this.plugin.returnToLastEditPosition();
+			}, 10);
+		};
 
-		new Notice('Footnote updated');
+		renumberBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.setSkipRefreshPeriod(1000);
+			setTimeout(() => {
+				this.plugin.renumberFootnotes();
+			}, 10);
+		};
 
-		setTimeout(() => {
-			this.debug('Refreshing view after footnote update');
+		duplicatesBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.setSkipRefreshPeriod(1000);
+			setTimeout(() => {
+				this.plugin.findDuplicateContent();
+			}, 10);
+		};
+
+		listViewBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.isListView = !this.isListView;
+			setIcon(listViewBtn, this.isListView ? 'list' : 'heading');
+			listViewBtn.setAttribute('title', this.isListView ?
+				'Switch to outline view (grouped by headings)' :
+				'Switch to list view (simple list)'
+			);
 			this.refresh();
-		}, 100);
+		};
 	}
 
-	deleteFootnoteFromEditor(footnote: FootnoteData) {
-		this.debug('deleteFootnoteFromEditor called for:', footnote);
+	private disableControls(
+		toggleBtn ? : HTMLButtonElement,
+		navBtn ? : HTMLButtonElement,
+		returnBtn ? : HTMLButtonElement,
+		renumberBtn ? : HTMLButtonElement,
+		searchInput ? : HTMLInputElement,
+		listViewBtn ? : HTMLButtonElement
+	) {
+		if (toggleBtn) toggleBtn.disabled = true;
+		if (navBtn) navBtn.disabled = true;
+		if (returnBtn) returnBtn.disabled = true;
+		if (renumberBtn) renumberBtn.disabled = true;
+		if (searchInput) searchInput.disabled = true;
+		if (listViewBtn) listViewBtn.disabled = true;
+	}
 
-		let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		let currentFile = this.app.workspace.getActiveFile();
+	// UPDATED: processFootnotes method with unreferenced footnotes handling
+	private processFootnotes(
+		content: string,
+		container: Element,
+		toggleBtn ? : HTMLButtonElement,
+		toggleIcon ? : HTMLElement,
+		searchInput ? : HTMLInputElement,
+		clearSearchBtn ? : HTMLButtonElement,
+		navBtn ? : HTMLButtonElement,
+		returnBtn ? : HTMLButtonElement,
+		renumberBtn ? : HTMLButtonElement,
+		listViewBtn ? : HTMLButtonElement
+	) {
+		this.debug('Processing footnotes for content of length:', content.length, 'isListView:', this.isListView);
 
-		if (!activeView && currentFile) {
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === currentFile) {
-					activeView = view;
-					break;
-				}
+		const currentStates = new Map < string,
+			boolean > ();
+		this.renderedGroups.forEach(rendered => {
+			if (rendered.group.header) {
+				const key = `${rendered.group.header.level}-${rendered.group.header.text}`;
+				currentStates.set(key, !rendered.group.isCollapsed);
 			}
-		}
+		});
 
-		if (!activeView && this.currentFile) {
-			currentFile = this.currentFile;
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === currentFile) {
-					activeView = view;
-					break;
-				}
-			}
-		}
+		this.renderedGroups = [];
 
-		if (!activeView) {
-			this.debug('No active view found for deleting footnote');
-			return;
+		const footnotes = [...this.plugin.extractFootnotes(content), ...this.plugin.extractInlineFootnotes(content)];
+		const orphanedReferences = this.plugin.findOrphanedReferences(content);
+
+		this.chapterSequences = new Map();
+		const chapterLevel = this.plugin.getChapterLevel();
+		if (chapterLevel !== null) {
+			const sequences = this.plugin.getChapterSequences(footnotes);
+			this.plugin.getChapterHeadings(content, chapterLevel).forEach((heading, index) => {
+				const sequence = sequences.get(index + 1);
+				if (sequence) {
+					this.chapterSequences.set(heading.line, {
+						chapter: index + 1,
+						...sequence
+					});
+				}
+			});
 		}
 
-		const editor = activeView.editor;
-		const currentContent = editor.getValue();
-
-		// NEW: Handle unreferenced footnotes differently
-		if (footnote.isUnreferenced) {
-			this.performUnreferencedFootnoteDeletion(editor, footnote);
-			return;
-		}
+		this.debug('Found', footnotes.length, 'footnotes and', orphanedReferences.length, 'references without definitions');
 
-		const {
-			referencedFootnotes
-		} = this.plugin.extractFootnotesWithUnreferenced(currentContent);
-		const matchingFootnote = referencedFootnotes.find(f => f.number === footnote.number);
+		if (footnotes.length === 0 && orphanedReferences.length === 0) {
+			container.createEl('div', {
+				text: 'No footnotes found',
+				cls: 'footnotes-empty'
+			});
 
-		if (!matchingFootnote) {
-			this.debug('Could not find matching footnote to delete');
-			this.refresh();
+			this.disableControls(toggleBtn, navBtn, returnBtn, renumberBtn, searchInput, listViewBtn);
 			return;
 		}
 
-		if (matchingFootnote.referenceCount === 1) {
-			this.performFullFootnoteDeletion(editor, matchingFootnote);
-		} else {
-			this.performReferenceOnlyDeletion(editor, matchingFootnote);
-		}
-	}
-
-	// NEW: Method to delete unreferenced footnotes
-	private performUnreferencedFootnoteDeletion(editor: any, footnote: FootnoteData) {
-		const content = editor.getValue();
+		// Enable controls when we have footnotes
+		if (toggleBtn) toggleBtn.disabled = false;
+		if (searchInput) searchInput.disabled = false;
+		if (navBtn) navBtn.disabled = false;
+		if (returnBtn) returnBtn.disabled = false;
+		if (renumberBtn) renumberBtn.disabled = false;
+		if (listViewBtn) listViewBtn.disabled = false;
 
-		// Just delete the definition since there are no references
-		const before = content.substring(0, footnote.definition.startPos);
-		const after = content.substring(footnote.definition.endPos);
+		this.renderProblemsSection(content, container);
 
-		let newContent = before + after;
+		const footnotesList = container.createEl('div', {
+			cls: 'footnotes-list'
+		});
 
-		// Clean up any double newlines left behind
-		newContent = newContent.replace(/\n\n\n+/g, '\n\n');
+		// MOVED: Set up search functionality for BOTH view modes
+		if (searchInput && clearSearchBtn) {
+			let searchTimeout: number | null = null;
+			let currentSearchTerm = '';
 
-		editor.setValue(newContent);
-		new Notice(`Unreferenced footnote [${footnote.number}] deleted`);
+			const performSearch = () => {
+				const searchTerm = searchInput.value.toLowerCase().trim();
+				currentSearchTerm = searchTerm;
 
-		setTimeout(() => {
-			this.refresh();
-		}, 100);
-	}
+				// Clear current content
+				footnotesList.empty();
 
-	private performFullFootnoteDeletion(editor: any, footnote: FootnoteData) {
-		let content = editor.getValue();
+				if (this.isListView) {
+					// Filter and render list view
+					this.filterAndRenderListView(footnotes, footnotesList, searchTerm);
+				} else {
+					// Filter and render outline view (existing functionality)
+					const headers = this.plugin.extractHeaders(content);
+					const footnoteGroups = this.plugin.groupFootnotesByHeaders(footnotes, headers, orphanedReferences);
+					this.filterFootnotes(footnotesList, footnoteGroups, searchTerm);
+				}
 
-		const deletions: Array < {
-			startPos: number,
-			endPos: number
-		} > = [];
+				if (searchTerm) {
+					clearSearchBtn.style.display = 'block';
+				} else {
+					clearSearchBtn.style.display = 'none';
+				}
+			};
 
-		deletions.push({
-			startPos: footnote.definition.startPos,
-			endPos: footnote.definition.endPos
-		});
+			(this as any).currentSearchTerm = '';
 
-		footnote.references.forEach(ref => {
-			deletions.push({
-				startPos: ref.startPos,
-				endPos: ref.endPos
+			searchInput.addEventListener('input', () => {
+				this.debug('Search input changed:', searchInput.value);
+				if (searchTimeout) {
+					window.clearTimeout(searchTimeout);
+				}
+				searchTimeout = window.setTimeout(() => {
+					(this as any).currentSearchTerm = searchInput.value.toLowerCase().trim();
+					performSearch();
+				}, 300);
 			});
-		});
 
-		deletions.sort((a, b) => b.startPos - a.startPos);
+			clearSearchBtn.addEventListener('click', () => {
+				this.debug('Clear search clicked');
+				searchInput.value = '';
+				(this as any).currentSearchTerm = '';
+				performSearch();
+				searchInput.focus();
+			});
 
-		deletions.forEach(deletion => {
-			const before = content.substring(0, deletion.startPos);
-			const after = content.substring(deletion.endPos);
-			content = before + after;
-		});
+			clearSearchBtn.style.display = 'none';
+		}
 
-		content = content.replace(/\n\n\n+/g, '\n\n');
-		content = content.replace(/  +/g, ' ');
+		// Render initial view based on mode
+		if (this.isListView) {
+			this.debug('Rendering in list view mode');
+			this.renderListView(footnotes, footnotesList);
+		} else {
+			this.debug('Rendering in outline view mode');
+			// Process headers and create groups for outline view
+			const headers = this.plugin.extractHeaders(content);
+			const footnoteGroups = this.plugin.groupFootnotesByHeaders(footnotes, headers, orphanedReferences);
 
-		editor.setValue(content);
-		new Notice(`Footnote [${footnote.number}] deleted completely`);
+			this.debug('Found', footnoteGroups.length, 'groups');
 
-		setTimeout(() => {
-			this.refresh();
-		}, 100);
-	}
+			const allGroups: FootnoteGroup[] = [];
+			const collectAllGroups = (groups: FootnoteGroup[]) => {
+				groups.forEach(group => {
+					allGroups.push(group);
+					if (group.children) {
+						collectAllGroups(group.children);
+					}
+				});
+			};
+			collectAllGroups(footnoteGroups);
 
-	private performReferenceOnlyDeletion(editor: any, footnote: FootnoteData) {
-		let content = editor.getValue();
-		const firstRef = footnote.references[0];
-		const before = content.substring(0, firstRef.startPos);
-		const after = content.substring(firstRef.endPos);
-		content = before + after;
+			if (toggleBtn && toggleIcon) {
+				toggleBtn.onclick = (e) => {
+					this.debug('Toggle button clicked, current state:', this.isCollapsed);
+					e.preventDefault();
+					e.stopPropagation();
+					this.toggleAllGroups(toggleBtn);
+				};
 
-		content = content.replace(/\n\n\n+/g, '\n\n');
-		content = content.replace(/  +/g, ' ');
+				this.updateToggleButton(toggleBtn);
+			}
 
-		editor.setValue(content);
-		new Notice(`First reference to footnote [${footnote.number}] deleted`);
+			footnoteGroups.forEach(group => {
+				if (this.isCollapsed && !this.hasManualExpansions) {
+					this.setGroupCollapsedRecursively(group, true);
+				}
+				this.renderFootnoteGroup(group, footnotesList, 0);
+			});
 
-		setTimeout(() => {
-			this.refresh();
-		}, 100);
-	}
+			if (this.hasManualExpansions && currentStates.size > 0) {
+				this.restoreExpansionStates(footnoteGroups, currentStates);
+			}
+		}
 
-	private renderFootnoteMarkdown(content: string, el: HTMLElement) {
-		el.empty();
-		MarkdownRenderer.renderMarkdown(content, el, '', this);
+		this.debug('Rendered groups count:', this.renderedGroups.length);
+		this.debug('Initial collapsed state:', this.isCollapsed, 'hasManualExpansions:', this.hasManualExpansions);
 	}
 
-	private highlightSearchInElement(el: HTMLElement, searchTerm: string) {
-		const textNodes: Node[] = [];
-		const walk = document.createTreeWalker(el, NodeFilter.SHOW_TEXT, null);
-		while (walk.nextNode()) {
-			textNodes.push(walk.currentNode);
-		}
+	private restoreExpansionStates(groups: FootnoteGroup[], states: Map < string, boolean > ) {
+		const restoreGroup = (group: FootnoteGroup) => {
+			if (group.header) {
+				const key = `${group.header.level}-${group.header.text}`;
+				const wasExpanded = states.get(key);
+				if (wasExpanded !== undefined) {
+					group.isCollapsed = !wasExpanded;
 
-		textNodes.forEach(node => {
-			if (node.nodeValue) {
-				const highlighted = this.highlightSearchText(node.nodeValue, searchTerm);
-				if (highlighted !== node.nodeValue) {
-					const span = document.createElement('span');
-					span.innerHTML = highlighted;
-					node.parentNode?.replaceChild(span, node);
+					const rendered = this.renderedGroups.find(r =>
+						r.group.header &&
+						r.group.header.level === group.header!.level &&
+						r.group.header.text === group.header!.text
+					);
+					if (rendered) {
+						setIcon(rendered.collapseIcon as HTMLElement, group.isCollapsed ? 'chevron-right' : 'chevron-down');
+						rendered.contentElement.style.display = group.isCollapsed ? 'none' : 'block';
+					}
 				}
 			}
-		});
+
+			if (group.children) {
+				group.children.forEach(restoreGroup);
+			}
+		};
+
+		groups.forEach(restoreGroup);
 	}
 
-	private filterAndRenderListView(footnotes: FootnoteData[], container: Element, searchTerm: string) {
-		const filteredFootnotes = footnotes.filter(footnote =>
-			footnote.content.toLowerCase().includes(searchTerm) ||
-			footnote.number.toLowerCase().includes(searchTerm)
-		);
+	private setGroupCollapsedRecursively(group: FootnoteGroup, collapsed: boolean) {
+		group.isCollapsed = collapsed;
+		if (group.children) {
+			group.children.forEach(child => {
+				this.setGroupCollapsedRecursively(child, collapsed);
+			});
+		}
+	}
 
-		if (filteredFootnotes.length === 0) {
-			container.createEl('div', {
+	private highlightSearchText(text: string, searchTerm: string): string {
+		if (!searchTerm) return text;
+
+		const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
+		return text.replace(regex, '<mark class="search-highlight">$1</mark>');
+	}
+
+	private filterFootnotes(footnotesList: Element, footnoteGroups: FootnoteGroup[], searchTerm: string) {
+		footnotesList.empty();
+
+		if (!searchTerm) {
+			footnoteGroups.forEach(group => {
+				this.renderFootnoteGroup(group, footnotesList, 0);
+			});
+			return;
+		}
+
+		const filteredGroups = this.filterGroupsRecursively(footnoteGroups, searchTerm);
+
+		if (filteredGroups.length === 0) {
+			footnotesList.createEl('div', {
 				text: 'No matching footnotes found',
 				cls: 'footnotes-empty'
 			});
 			return;
 		}
 
-		this.renderListView(filteredFootnotes, container);
+		filteredGroups.forEach(group => {
+			this.renderFootnoteGroup(group, footnotesList, 0);
+		});
 	}
 
-	private removeCursorListener() {
-		if (this.cursorListener) {
-			this.app.workspace.off('cursor-activity', this.cursorListener);
-			this.cursorListener = undefined;
-		}
-	}
+	private filterGroupsRecursively(groups: FootnoteGroup[], searchTerm: string): FootnoteGroup[] {
+		const filtered: FootnoteGroup[] = [];
 
-	expandPathToFootnote(footnoteNumber: string, callback?: () => void) {
-		this.debug('Expanding path to footnote:', footnoteNumber);
+		groups.forEach(group => {
+			const headerMatches = group.header?.text.toLowerCase().includes(searchTerm) || false;
 
-		const footnoteElements = this.containerEl.querySelectorAll('.footnote-number');
-		let targetFootnote: HTMLElement | null = null;
+			const matchingFootnotes = group.footnotes.filter(footnote =>
+				footnote.content.toLowerCase().includes(searchTerm) ||
+				footnote.number.toLowerCase().includes(searchTerm)
+			);
 
-		footnoteElements.forEach(el => {
-			if (el.textContent === `[${footnoteNumber}]`) {
-				targetFootnote = el.closest('.footnote-item') as HTMLElement;
+			const matchingOrphans = (group.orphanedReferences || []).filter(ref =>
+				ref.number.toLowerCase().includes(searchTerm)
+			);
+
+			const filteredChildren = group.children ?
+				this.filterGroupsRecursively(group.children, searchTerm) : [];
+
+			if (headerMatches || matchingFootnotes.length > 0 || matchingOrphans.length > 0 || filteredChildren.length > 0) {
+				const filteredGroup: FootnoteGroup = {
+					header: group.header,
+					footnotes: headerMatches ? group.footnotes : matchingFootnotes,
+					children: filteredChildren.length > 0 ? filteredChildren : undefined,
+					parent: group.parent,
+					isCollapsed: false,
+					isUnreferencedGroup: group.isUnreferencedGroup,
+					isMissingDefinitionsGroup: group.isMissingDefinitionsGroup,
+					orphanedReferences: group.orphanedReferences ? (headerMatches ? group.orphanedReferences : matchingOrphans) : undefined
+				};
+
+				filtered.push(filteredGroup);
 			}
 		});
 
-		if (!targetFootnote) {
-			this.debug('Footnote not found in view');
-			if (callback) callback();
-			return;
-		}
+		return filtered;
+	}
 
-		let currentEl = targetFootnote.parentElement;
-		const sectionsToExpand: RenderedGroup[] = [];
+	private renderListView(footnotes: FootnoteData[], container: Element) {
+		this.debug('Rendering list view with', footnotes.length, 'footnotes');
 
-		while (currentEl && currentEl !== this.containerEl) {
-			if (currentEl.classList.contains('footnote-group-content')) {
-				const headerSection = currentEl.parentElement;
-				if (headerSection) {
-					const collapseIcon = headerSection.querySelector('.footnote-collapse-icon');
-					if (collapseIcon) {
-						const group = this.renderedGroups.find(r => r.collapseIcon === collapseIcon);
-						if (group && group.group.isCollapsed) {
-							sectionsToExpand.push(group);
-						}
-					}
-				}
-			}
-			currentEl = currentEl.parentElement;
-		}
+		// Sort footnotes by their first reference position (document order), unreferenced at end
+		const sortedFootnotes = [...footnotes].sort((a, b) => {
+			if (a.isUnreferenced && !b.isUnreferenced) return 1;
+			if (!a.isUnreferenced && b.isUnreferenced) return -1;
+			if (a.isUnreferenced && b.isUnreferenced) return 0;
 
-		this.debug('Sections to expand:', sectionsToExpand.length);
+			const aFirstRef = a.references[0];
+			const bFirstRef = b.references[0];
+			if (!aFirstRef || !bFirstRef) return 0;
+			return aFirstRef.startPos - bFirstRef.startPos;
+		});
 
-		sectionsToExpand.reverse().forEach((section, index) => {
-			setTimeout(() => {
-				this.debug('Expanding section:', index + 1);
-				section.group.isCollapsed = false;
-				setIcon(section.collapseIcon as HTMLElement, 'chevron-down');
-				section.contentElement.style.display = 'block';
-				this.hasManualExpansions = true;
-				this.debug('Updated group collapsed state');
-			
-				// Call callback after last expansion
-				if (index === sectionsToExpand.length - 1 && callback) {
-					callback();
-				}
-			}, index * 50); // Stagger expansions
+		sortedFootnotes.forEach((footnote, index) => {
+			const footnoteContainer = container.createEl('div', {
+				cls: 'footnote-list-item'
+			});
+
+			const sequenceEl = footnoteContainer.createEl('div', {
+				cls: 'footnote-sequence',
+				text: `${index + 1}.`
+			});
+
+			this.createFootnoteElement(footnote, footnoteContainer);
 		});
-	
-		// If no sections to expand, call callback immediately
-		if (sectionsToExpand.length === 0 && callback) {
-			callback();
-		}
+
+		this.debug('List view rendered successfully');
 	}
 
-	private scrollToFootnote(footnoteEl: HTMLElement) {
-		const container = this.containerEl.children[1];
-		const containerRect = container.getBoundingClientRect();
-		const footnoteRect = footnoteEl.getBoundingClientRect();
-	
-		// Calculate the scroll position to center the footnote in the view
-		const currentScroll = container.scrollTop;
-		const targetScroll = currentScroll + (footnoteRect.top - containerRect.top) - (containerRect.height / 3);
-	
-		this.debug('Scrolling container. Current scroll:', currentScroll, 'Target scroll:', targetScroll);
-	
-		container.scrollTo({
-			top: Math.max(0, targetScroll),
-			behavior: 'smooth'
+	// All footnotes of the manuscript, grouped by note in reading order
+	private async renderManuscriptView(container: HTMLElement, renderId: number) {
+		const files = this.plugin.getManuscriptFiles();
+		if (!files || files.length === 0) {
+			container.createEl('div', {
+				text: files ? 'The manuscript index note does not link to any notes' : 'Set a manuscript index note in the plugin settings to use this view',
+				cls: 'footnotes-empty'
+			});
+			return;
+		}
+
+		const list = container.createEl('div', {
+			cls: 'footnotes-list'
 		});
+		for (const file of files) {
+			const content = await this.plugin.readManuscriptFile(file);
+			if (renderId !== this.renderId) return;
+			this.renderManuscriptFile(file, content, list);
+		}
 	}
 
-	private highlightFootnote(footnoteEl: HTMLElement) {
-		// Remove any existing highlights first
-		this.containerEl.querySelectorAll('.footnote-item-hover').forEach(el => {
-			el.classList.remove('footnote-item-hover');
+	private renderManuscriptFile(file: TFile, content: string, container: Element) {
+		const footnotes = this.plugin.extractFootnotes(content).sort((a, b) =>
+			this.plugin.compareFootnoteLabels(a.number, b.number) ||
+			(a.references[0]?.startPos ?? a.definition.startPos) - (b.references[0]?.startPos ?? b.definition.startPos)
+		);
+
+		const fileSection = container.createEl('div', {
+			cls: 'footnote-header-section footnotes-manuscript-file'
+		});
+		if (file === this.currentFile) {
+			fileSection.addClass('is-active');
+		}
+
+		const fileHeader = fileSection.createEl('div', {
+			cls: 'footnote-header'
+		});
+		const collapseIcon = fileHeader.createEl('span', {
+			cls: 'footnote-collapse-icon'
+		});
+		setIcon(collapseIcon, 'chevron-down');
+		fileHeader.createEl('span', {
+			cls: 'footnote-header-text',
+			text: `${file.basename} (${footnotes.length})`,
+			attr: {
+				title: file.path
+			}
+		});
+
+		const numbers = footnotes.filter(f => /^\d+$/.test(f.number)).map(f => parseInt(f.number));
+		if (numbers.length > 0) {
+			const first = Math.min(...numbers);
+			const last = Math.max(...numbers);
+			fileHeader.createEl('span', {
+				cls: 'footnote-chapter-sequence',
+				text: first === last ? `${first}` : `${first}–${last}`
+			});
+		}
+
+		const footnotesEl = fileSection.createEl('div', {
+			cls: 'footnote-group-content'
+		});
+		collapseIcon.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			const collapsed = footnotesEl.style.display === 'none';
+			footnotesEl.style.display = collapsed ? 'block' : 'none';
+			setIcon(collapseIcon, collapsed ? 'chevron-down' : 'chevron-right');
+		});
+
+		footnotes.forEach(footnote => {
+			const footnoteEl = footnotesEl.createEl('div', {
+				cls: 'footnotes-manuscript-footnote'
+			});
+			if (footnote.references.length === 0) {
+				footnoteEl.addClass('footnote-unreferenced');
+			}
+			footnoteEl.createEl('span', {
+				cls: 'footnotes-manuscript-label',
+				text: `[${footnote.number}]`
+			});
+			footnoteEl.createEl('span', {
+				cls: 'footnotes-manuscript-text',
+				text: footnote.content || '(empty footnote)'
+			});
+
+			footnoteEl.addEventListener('click', async (e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				await this.openManuscriptFootnote(file, footnote);
+			});
+		});
+	}
+
+	private async openManuscriptFootnote(file: TFile, footnote: FootnoteData) {
+		const editor = await this.plugin.openFileInEditor(file);
+		if (!editor) {
+			new Notice(`Could not open ${file.path}`);
+			return;
+		}
+
+		if (footnote.references.length > 0) {
+			this.plugin.highlightFootnoteInEditor(footnote, 0, file);
+			return;
+		}
+
+		const position = {
+			line: footnote.definition.line,
+			ch: 0
+		};
+		editor.setCursor(position);
+		editor.scrollIntoView({
+			from: position,
+			to: position
+		}, true);
+		editor.focus();
+	}
+
+	// Collapsible list of linter findings for the current note, each with its quick fix
+	private renderProblemsSection(content: string, container: Element) {
+		const problems = this.plugin.lintFootnotes(content, this.currentFile?.path || '');
+		if (problems.length === 0) return;
+
+		const section = container.createEl('div', {
+			cls: 'footnote-problems-section'
+		});
+		const headerEl = section.createEl('div', {
+			cls: 'footnote-header footnote-problems-header'
+		});
+		const collapseIcon = headerEl.createEl('span', {
+			cls: 'footnote-collapse-icon'
+		});
+		headerEl.createEl('span', {
+			cls: 'footnote-header-text',
+			text: `Problems (${problems.length})`
+		});
+
+		const listEl = section.createEl('div', {
+			cls: 'footnote-problems-list'
+		});
+
+		const updateCollapsed = () => {
+			setIcon(collapseIcon, this.problemsCollapsed ? 'chevron-right' : 'chevron-down');
+			listEl.style.display = this.problemsCollapsed ? 'none' : 'block';
+		};
+		headerEl.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.problemsCollapsed = !this.problemsCollapsed;
+			updateCollapsed();
+		});
+		updateCollapsed();
+
+		problems.forEach(problem => {
+			const problemEl = listEl.createEl('div', {
+				cls: `footnote-problem-item footnote-problem-${problem.rule}`
+			});
+			problemEl.createEl('span', {
+				cls: 'footnote-problem-message',
+				text: problem.message
+			});
+
+			const lineBtn = problemEl.createEl('button', {
+				cls: 'footnote-reference-btn',
+				text: `Line ${problem.line + 1}`,
+				attr: {
+					title: `Go to line ${problem.line + 1}`
+				}
+			});
+			lineBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.setSkipRefreshPeriod(1500);
+				this.plugin.jumpToLine(problem.line);
+			});
+
+			const fix = problem.fix;
+			if (fix) {
+				const fixBtn = problemEl.createEl('button', {
+					cls: 'footnote-problem-fix-btn',
+					text: fix.label
+				});
+				fixBtn.addEventListener('click', (e) => {
+					e.stopPropagation();
+					e.preventDefault();
+					this.plugin.applyLintFix(content, fix.apply);
+				});
+			}
+		});
+	}
+
+	private renderFootnoteGroup(group: FootnoteGroup, container: Element, depth: number) {
+		const headerSection = container.createEl('div', {
+			cls: 'footnote-header-section'
+		});
+		headerSection.style.marginLeft = `${depth * 12}px`;
+
+		const headerEl = headerSection.createEl('div', {
+			cls: 'footnote-header'
+		});
+
+		// Add special styling for unreferenced group
+		if (group.isMissingDefinitionsGroup) {
+			headerEl.addClass('footnote-missing-header');
+		} else if (group.header && group.header.line === -1) {
+			headerEl.addClass('footnote-unreferenced-header');
+		}
+
+		const collapseIcon = headerEl.createEl('span', {
+			cls: 'footnote-collapse-icon'
+		});
+		const orphanedReferences = group.orphanedReferences || [];
+		const hasChildren = (group.children && group.children.length > 0) || group.footnotes.length > 0 || orphanedReferences.length > 0;
+
+		if (hasChildren) {
+			setIcon(collapseIcon, group.isCollapsed ? 'chevron-right' : 'chevron-down');
+			collapseIcon.style.visibility = 'visible';
+		} else {
+			collapseIcon.style.visibility = 'hidden';
+		}
+
+		const headerText = headerEl.createEl('span', {
+			cls: 'footnote-header-text'
+		});
+		if (group.header) {
+			const totalFootnotes = this.countTotalFootnotes(group);
+			if (totalFootnotes > 0) {
+				headerText.textContent = `${group.header.text} (${totalFootnotes})`;
+			} else {
+				headerText.textContent = group.header.text;
+			}
+		} else {
+			headerText.textContent = `No Header (${group.footnotes.length})`;
+		}
+
+		const chapterSequence = group.header ? this.chapterSequences.get(group.header.line) : undefined;
+		if (chapterSequence) {
+			const first = this.plugin.formatChapterLabel(chapterSequence.chapter, chapterSequence.numbers[0]);
+			const last = this.plugin.formatChapterLabel(chapterSequence.chapter, chapterSequence.numbers[chapterSequence.numbers.length - 1]);
+			headerEl.createEl('span', {
+				cls: 'footnote-chapter-sequence',
+				text: first === last ? first : `${first}–${last}`,
+				attr: {
+					title: `Footnote numbers of chapter ${chapterSequence.chapter}`
+				}
+			});
+			if (chapterSequence.gaps.length > 0) {
+				headerEl.createEl('span', {
+					cls: 'footnote-chapter-gaps',
+					text: `Gaps: ${chapterSequence.gaps.join(', ')}`,
+					attr: {
+						title: 'Numbers missing from this chapter\'s sequence'
+					}
+				});
+			}
+		}
+
+		const groupContent = headerSection.createEl('div', {
+			cls: 'footnote-group-content'
+		});
+		if (group.isCollapsed) {
+			groupContent.style.display = 'none';
+		}
+
+		if (hasChildren) {
+			this.renderedGroups.push({
+				group: group,
+				collapseIcon: collapseIcon,
+				contentElement: groupContent
+			});
+		}
+
+		if (hasChildren) {
+			collapseIcon.addEventListener('click', (e) => {
+				this.debug('Collapse icon clicked for group:', group.header?.text || 'No Header');
+				e.preventDefault();
+				e.stopPropagation();
+				this.toggleGroupCollapse(group, collapseIcon, groupContent);
+			});
+		}
+
+		// Handle click events for headers (skip for unreferenced group since it's virtual)
+		if (group.header && group.header.line !== -1) {
+			headerText.addEventListener('click', (e) => {
+				this.debug('Header text clicked, navigating to:', group.header!.text);
+				e.preventDefault();
+				e.stopPropagation();
+
+				this.plugin.skipNextRefresh = true;
+				this.plugin.highlightHeaderInEditor(group.header!);
+
+				setTimeout(() => {
+					this.plugin.skipNextRefresh = false;
+				}, 100);
+
+				return false;
+			});
+
+			headerEl.addEventListener('click', (e) => {
+				if (e.target === collapseIcon || e.target === headerText) {
+					return;
+				}
+				e.preventDefault();
+				e.stopPropagation();
+				return false;
+			});
+		}
+
+		if (group.footnotes.length > 0) {
+			const groupFootnotes = groupContent.createEl('div', {
+				cls: 'footnote-group-footnotes'
+			});
+			group.footnotes.forEach(footnote => {
+				this.createFootnoteElement(footnote, groupFootnotes);
+			});
+		}
+
+		if (orphanedReferences.length > 0) {
+			const groupOrphans = groupContent.createEl('div', {
+				cls: 'footnote-group-footnotes'
+			});
+			const referencesByNumber = new Map < string,
+				OrphanedReference[] > ();
+			orphanedReferences.forEach(ref => {
+				if (!referencesByNumber.has(ref.number)) {
+					referencesByNumber.set(ref.number, []);
+				}
+				referencesByNumber.get(ref.number) !.push(ref);
+			});
+			referencesByNumber.forEach((references, number) => {
+				this.createOrphanedReferenceElement(number, references, groupOrphans);
+			});
+		}
+
+		if (group.children) {
+			group.children.forEach(childGroup => {
+				this.renderFootnoteGroup(childGroup, groupContent, depth + 1);
+			});
+		}
+	}
+
+	private countTotalFootnotes(group: FootnoteGroup): number {
+		let total = group.footnotes.length;
+		if (group.orphanedReferences) {
+			total += new Set(group.orphanedReferences.map(ref => ref.number)).size;
+		}
+		if (group.children) {
+			group.children.forEach((child: FootnoteGroup) => {
+				total += this.countTotalFootnotes(child);
+			});
+		}
+		return total;
+	}
+
+	private toggleGroupCollapse(group: FootnoteGroup, icon: Element, content: HTMLElement) {
+		group.isCollapsed = !group.isCollapsed;
+
+		if (group.isCollapsed) {
+			setIcon(icon as HTMLElement, 'chevron-right');
+			content.style.display = 'none';
+		} else {
+			setIcon(icon as HTMLElement, 'chevron-down');
+			content.style.display = 'block';
+			this.hasManualExpansions = true;
+		}
+
+		if (group.isCollapsed && group.children) {
+			this.collapseAllChildren(group);
+		}
+
+		this.debug('Group toggled, hasManualExpansions:', this.hasManualExpansions);
+	}
+
+	private toggleAllGroups(toggleBtn: HTMLElement) {
+		this.debug('toggleAllGroups called, current state:', this.isCollapsed);
+
+		if (this.isCollapsed) {
+			this.debug('Expanding all groups');
+			this.expandAllGroups([]);
+			this.hasManualExpansions = false;
+		} else {
+			this.debug('Collapsing all groups to top level overview');
+			this.collapseAllGroups([]);
+			this.hasManualExpansions = false;
+		}
+
+		this.isCollapsed = !this.isCollapsed;
+		this.updateToggleButton(toggleBtn);
+
+		this.debug('toggleAllGroups completed, new state:', this.isCollapsed);
+	}
+
+	private updateToggleButton(toggleBtn: HTMLElement) {
+		if (this.isCollapsed) {
+			setIcon(toggleBtn, 'plus');
+			toggleBtn.setAttribute('title', 'Expand all sections');
+		} else {
+			setIcon(toggleBtn, 'minus');
+			toggleBtn.setAttribute('title', 'Collapse all sections');
+		}
+	}
+
+	private collapseAllGroups(allGroups: FootnoteGroup[]) {
+		this.debug('Collapsing all groups to top level overview');
+
+		this.renderedGroups.forEach(rendered => {
+			const hasContent = (rendered.group.children && rendered.group.children.length > 0) || rendered.group.footnotes.length > 0;
+
+			if (hasContent) {
+				rendered.group.isCollapsed = true;
+				setIcon(rendered.collapseIcon as HTMLElement, 'chevron-right');
+				rendered.contentElement.style.display = 'none';
+			}
+		});
+	}
+
+	private expandAllGroups(allGroups: FootnoteGroup[]) {
+		this.debug('Expanding all groups');
+		this.renderedGroups.forEach(rendered => {
+			rendered.group.isCollapsed = false;
+			setIcon(rendered.collapseIcon as HTMLElement, 'chevron-down');
+			rendered.contentElement.style.display = 'block';
+		});
+	}
+
+	private collapseAllChildren(group: FootnoteGroup) {
+		if (group.children) {
+			group.children.forEach((child: FootnoteGroup) => {
+				child.isCollapsed = true;
+				this.collapseAllChildren(child);
+			});
+		}
+	}
+
+	// UPDATED: createFootnoteElement with unreferenced handling
+	private createFootnoteElement(footnote: FootnoteData, container: Element) {
+		const footnoteEl = container.createEl('div', {
+			cls: 'footnote-item'
+		});
+
+		// NEW: Add unreferenced class if applicable
+		if (footnote.isUnreferenced) {
+			footnoteEl.addClass('footnote-unreferenced');
+		}
+
+		// Footnote number and reference count/status
+		const headerEl = footnoteEl.createEl('div', {
+			cls: 'footnote-header-info'
+		});
+
+		const numberContainer = headerEl.createEl('div', {
+			cls: 'footnote-number-container'
+		});
+		const numberEl = numberContainer.createEl('span', {
+			cls: 'footnote-number',
+			text: `[${footnote.number}]`
+		});
+
+		// NEW: Add copy icon for multi-section footnotes
+		if (footnote.isMultiSection) {
+			const multiSectionBadge = numberContainer.createEl('span', {
+				cls: 'footnote-multi-section-icon',
+				attr: {
+					title: `This footnote appears in ${footnote.appearanceCount} sections`
+				}
+			});
+			setIcon(multiSectionBadge.createEl('span'), 'copy');
+			multiSectionBadge.createEl('span', {
+				cls: 'footnote-multi-section-count',
+				text: `${footnote.appearanceCount}`
+			});
+		}
+
+		if (footnote.duplicateDefinitions && footnote.duplicateDefinitions.length > 0) {
+			footnoteEl.addClass('footnote-has-duplicates');
+			const duplicateBadge = headerEl.createEl('button', {
+				cls: 'footnote-duplicate-indicator',
+				text: `Defined ${footnote.duplicateDefinitions.length + 1}×`,
+				attr: {
+					title: 'This label has more than one definition. Click to resolve.'
+				}
+			});
+			duplicateBadge.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.openDuplicateDefinitionModal(footnote.number);
+			});
+		}
+
+		// NEW: Show "Unreferenced" instead of reference count for unreferenced footnotes
+		if (footnote.isInline) {
+			footnoteEl.addClass('footnote-inline');
+			headerEl.createEl('span', {
+				cls: 'footnote-inline-indicator',
+				text: 'Inline'
+			});
+		} else {
+			headerEl.createEl('span', {
+				cls: footnote.isUnreferenced ? 'footnote-unreferenced-indicator' : 'footnote-ref-count',
+				text: footnote.isUnreferenced ? 'Unreferenced' : `${footnote.referenceCount} ref${footnote.referenceCount !== 1 ? 's' : ''}`
+			});
+		}
+
+		const contentEl = footnoteEl.createEl('div', {
+			cls: 'footnote-content'
+		});
+
+		const isMultiLine = footnote.content.includes('\n');
+
+		let textEl: HTMLElement;
+		let displayEl: HTMLElement;
+
+		if (isMultiLine) {
+			displayEl = contentEl.createEl('div', {
+				cls: 'footnote-text footnote-display'
+			});
+
+			textEl = contentEl.createEl('textarea', {
+				cls: 'footnote-text footnote-textarea footnote-edit',
+				attr: {
+					spellcheck: 'false',
+					rows: (footnote.content.split('\n').length + 1).toString()
+				}
+			}) as HTMLTextAreaElement;
+			(textEl as HTMLTextAreaElement).value = footnote.content || '';
+
+			textEl.style.display = 'none';
+		} else {
+			displayEl = contentEl.createEl('div', {
+				cls: 'footnote-text footnote-display'
+			});
+
+			textEl = contentEl.createEl('div', {
+				cls: 'footnote-text footnote-edit',
+				attr: {
+					contenteditable: 'true',
+					spellcheck: 'false'
+				}
+			});
+			textEl.textContent = footnote.content || '(empty footnote)';
+
+			textEl.style.display = 'none';
+		}
+
+		this.renderFootnoteMarkdown(footnote.content || '(empty footnote)', displayEl);
+
+		const currentSearchTerm = (this as any).currentSearchTerm || '';
+		if (currentSearchTerm && footnote.content.toLowerCase().includes(currentSearchTerm)) {
+			this.highlightSearchInElement(displayEl, currentSearchTerm);
+		}
+
+		// NEW: Only show references section for referenced footnotes
+		if (!footnote.isUnreferenced && footnote.references.length > 0) {
+			const referencesEl = contentEl.createEl('div', {
+				cls: 'footnote-references'
+			});
+			referencesEl.createEl('span', {
+				cls: 'footnote-references-label',
+				text: 'References:'
+			});
+
+			// Copies listed under several headings only show the references in their own section
+			const referenceIndices = footnote.sectionReferenceIndices || footnote.references.map((_, index) => index);
+			referenceIndices.forEach(index => {
+				const ref = footnote.references[index];
+				const refEl = referencesEl.createEl('button', {
+					cls: 'footnote-reference-btn',
+					text: `Line ${ref.line + 1}`,
+					attr: {
+						title: `Go to reference ${index + 1} on line ${ref.line + 1}`
+					}
+				});
+
+				refEl.addEventListener('click', (e) => {
+				    e.stopPropagation();
+				    e.preventDefault();
+    
+				    this.debug('Reference button clicked for footnote:', footnote.number, 'index:', index);
+    
+				    // Ensure we have the current file reference
+				    this.debug('Refreshing current file reference before navigation');
+				    const activeFile = this.app.workspace.getActiveFile();
+				    if (activeFile) {
+				        this.currentFile = activeFile;
+				        this.debug('Updated currentFile to active file:', activeFile.path);
+				    }
+    
+				    // Set a focused skip period to prevent interference
+				    this.plugin.setSkipRefreshPeriod(1500);
+    
+				    // Call the navigation method directly without any delays
+				    this.plugin.highlightFootnoteInEditor(footnote, index);
+				});
+			});
+		}
+
+		// NEW: Add definition navigation section (inline footnotes are their own definition)
+		if (!footnote.isInline) {
+			const definitionSection = contentEl.createEl('div', {
+				cls: 'footnote-definition'
+			});
+			definitionSection.createEl('span', {
+				cls: 'footnote-definition-label',
+				text: 'Definition:'
+			});
+			const defBtn = definitionSection.createEl('button', {
+				cls: 'footnote-reference-btn',
+				text: `Line ${footnote.definition.line + 1}`,
+				attr: {
+					title: `Go to definition on line ${footnote.definition.line + 1}`
+				}
+			});
+			defBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.setSkipRefreshPeriod(2000);
+				this.jumpToFootnoteDefinition(footnote);
+			});
+		}
+
+		// Action buttons container
+		const actionsEl = footnoteEl.createEl('div', {
+			cls: 'footnote-actions'
+		});
+
+		// NEW: Show save/cancel buttons for all footnotes (enable editing for unreferenced too)
+		let saveBtn: HTMLButtonElement | undefined;
+		let cancelBtn: HTMLButtonElement | undefined;
+
+		saveBtn = actionsEl.createEl('button', {
+			text: 'Save',
+			cls: 'footnote-btn footnote-save-btn'
+		});
+		saveBtn.style.display = 'none';
+
+		cancelBtn = actionsEl.createEl('button', {
+			text: 'Cancel',
+			cls: 'footnote-btn footnote-cancel-btn'
+		});
+		cancelBtn.style.display = 'none';
+
+		// Rename button: changes the label of the definition and all references
+		if (!footnote.isInline) {
+			const renameBtn = actionsEl.createEl('button', {
+				cls: 'footnote-btn footnote-rename-btn',
+				attr: {
+					title: 'Rename label'
+				}
+			});
+			setIcon(renameBtn, 'tag');
+			renameBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.renameFootnote(footnote.number);
+			});
+		}
+
+		// Unwrap button: replaces a reference with the footnote text
+		if (footnote.isInline || !footnote.isUnreferenced) {
+			const unwrapBtn = actionsEl.createEl('button', {
+				cls: 'footnote-btn footnote-unwrap-btn',
+				attr: {
+					title: 'Unwrap footnote into the text'
+				}
+			});
+			setIcon(unwrapBtn, 'corner-left-up');
+			unwrapBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.unwrapFootnote(footnote);
+			});
+		}
+
+		// Split button: gives each reference its own copy of the definition
+		if (!footnote.isInline && footnote.referenceCount > 1) {
+			const splitBtn = actionsEl.createEl('button', {
+				cls: 'footnote-btn footnote-split-btn',
+				attr: {
+					title: 'Split into separate footnotes'
+				}
+			});
+			setIcon(splitBtn, 'split');
+			splitBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.splitFootnote(footnote);
+			});
+		}
+
+		// Delete button (always present)
+		const deleteBtn = actionsEl.createEl('button', {
+			cls: 'footnote-btn footnote-delete-btn',
+			attr: {
+				title: 'Delete footnote'
+			}
+		});
+		deleteBtn.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 6h18M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2m3 0v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6h14zM10 11v6M14 11v6"/></svg>`;
+
+		let originalText = footnote.content;
+		let isEditing = false;
+
+		// NEW: Setup editing for all footnotes
+		if (saveBtn && cancelBtn) {
+			const handleInput = () => {
+				if (!isEditing) {
+					isEditing = true;
+					saveBtn!.style.display = 'inline-block';
+					cancelBtn!.style.display = 'inline-block';
+					deleteBtn.style.display = 'none';
+					footnoteEl.addClass('footnote-editing');
+				}
+			};
+
+			if (textEl.tagName === 'TEXTAREA') {
+				(textEl as HTMLTextAreaElement).addEventListener('input', handleInput);
+
+				const autoResize = () => {
+					const textarea = textEl as HTMLTextAreaElement;
+					textarea.style.height = 'auto';
+					textarea.style.height = textarea.scrollHeight + 'px';
+				};
+
+				(textEl as HTMLTextAreaElement).addEventListener('input', autoResize);
+				setTimeout(autoResize, 0);
+			} else {
+				textEl.addEventListener('input', handleInput);
+			}
+
+			const handleKeydown = (e: KeyboardEvent) => {
+				if (e.key === 'Enter' && !e.shiftKey && textEl.tagName !== 'TEXTAREA') {
+					e.preventDefault();
+					saveFootnote();
+				} else if (e.key === 'Enter' && e.ctrlKey && textEl.tagName === 'TEXTAREA') {
+					e.preventDefault();
+					saveFootnote();
+				} else if (e.key === 'Escape') {
+					e.preventDefault();
+					cancelEdit();
+				}
+			};
+
+			textEl.addEventListener('keydown', handleKeydown);
+
+			const saveFootnote = () => {
+				let newText: string;
+				if (textEl.tagName === 'TEXTAREA') {
+					newText = (textEl as HTMLTextAreaElement).value.trim();
+				} else {
+					newText = textEl.textContent?.trim() || '';
+				}
+
+				if (newText !== originalText) {
+					this.updateFootnoteInEditor(footnote, newText);
+					originalText = newText;
+
+					this.renderFootnoteMarkdown(newText, displayEl);
+				}
+				exitEditMode();
+			};
+
+			const cancelEdit = () => {
+				if (textEl.tagName === 'TEXTAREA') {
+					(textEl as HTMLTextAreaElement).value = originalText;
+				} else {
+					textEl.textContent = originalText;
+				}
+				exitEditMode();
+			};
+
+			const exitEditMode = () => {
+				// Save scroll position before exiting edit mode
+				const scrollContainer = this.containerEl.children[1] as HTMLElement;
+				const currentScroll = scrollContainer.scrollTop;
+
+				isEditing = false;
+				saveBtn!.style.display = 'none';
+				cancelBtn!.style.display = 'none';
+				deleteBtn.style.display = 'inline-block';
+				footnoteEl.removeClass('footnote-editing');
+
+				displayEl.style.display = 'block';
+				textEl.style.display = 'none';
+				textEl.blur();
+
+				// Restore scroll position after layout change
+				setTimeout(() => {
+					scrollContainer.scrollTop = currentScroll;
+				}, 50);
+			};
+
+			const enterEditMode = () => {
+				// Save scroll position before entering edit mode
+				const scrollContainer = this.containerEl.children[1] as HTMLElement;
+				const currentScroll = scrollContainer.scrollTop;
+				const footnoteRect = footnoteEl.getBoundingClientRect();
+				const containerRect = scrollContainer.getBoundingClientRect();
+				const relativeTop = footnoteRect.top - containerRect.top + currentScroll;
+
+				this.debug('Entering edit mode, saving scroll position:', currentScroll, 'relativeTop:', relativeTop);
+
+				isEditing = true;
+				saveBtn!.style.display = 'inline-block';
+				cancelBtn!.style.display = 'inline-block';
+				deleteBtn.style.display = 'none';
+				footnoteEl.addClass('footnote-editing');
+
+				displayEl.style.display = 'none';
+				textEl.style.display = 'block';
+				textEl.focus();
+
+				if (textEl.tagName === 'TEXTAREA') {
+					(textEl as HTMLTextAreaElement).select();
+				} else {
+					const range = document.createRange();
+					range.selectNodeContents(textEl);
+					const selection = window.getSelection();
+					if (selection) {
+						selection.removeAllRanges();
+						selection.addRange(range);
+					}
+				}
+
+				// Restore scroll position after layout change
+				setTimeout(() => {
+					scrollContainer.scrollTop = relativeTop - (containerRect.height / 3); // Center footnote in view
+					this.debug('Restored scroll position after entering edit mode:', scrollContainer.scrollTop);
+				}, 100); // Increased delay to ensure layout stabilizes
+			};
+
+			saveBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				saveFootnote();
+			});
+
+			cancelBtn.addEventListener('click', (e) => {
+				e.stopPropagation();
+				cancelEdit();
+			});
+
+			// Click to edit functionality for all footnotes
+			footnoteEl.addEventListener('click', (e) => {
+				e.preventDefault();
+				e.stopPropagation();
+
+				this.debug('Footnote clicked, isEditing:', isEditing, 'target:', e.target);
+
+				if (isEditing) {
+					this.debug('Already in edit mode, ignoring click');
+					return;
+				}
+
+				const target = e.target as HTMLElement;
+				if (target.tagName === 'BUTTON' || target.closest('button')) {
+					this.debug('Click was on button, ignoring');
+					return;
+				}
+
+				if (target === displayEl || displayEl.contains(target)) {
+					this.debug('Clicked on display element, entering edit mode');
+					enterEditMode();
+					return;
+				}
+
+				if (target === textEl) {
+					this.debug('Clicked on text element, entering edit mode');
+					enterEditMode();
+					return;
+				}
+
+				this.debug('Click was on non-editable area, no action taken but prevent default/bubble');
+			});
+
+			if (this.pendingEditLabels.delete(footnote.number)) {
+				enterEditMode();
+			}
+		}
+
+		deleteBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+
+			// Footnotes cited more than once let the user pick which references to delete
+			if (!footnote.isInline && footnote.referenceCount > 1) {
+				this.openDeleteReferencesModal(footnote);
+				return;
+			}
+
+			// NEW: Different confirmation messages for unreferenced vs referenced footnotes
+			let confirmMessage;
+			if (footnote.isInline) {
+				confirmMessage = `Are you sure you want to delete this inline footnote?\n\n${footnote.content}`;
+			} else if (footnote.isUnreferenced) {
+				confirmMessage = `Are you sure you want to delete unreferenced footnote [${footnote.number}]?\n\nThis will delete the footnote definition.`;
+			} else {
+				confirmMessage = `Are you sure you want to delete footnote [${footnote.number}]?\n\nThis will delete both the reference and the footnote definition.`;
+			}
+
+			const confirmDelete = confirm(confirmMessage);
+			if (confirmDelete) {
+				this.deleteFootnoteFromEditor(footnote);
+			}
+		});
+
+		footnoteEl.addEventListener('mouseleave', () => {
+			footnoteEl.removeClass('footnote-item-hover');
+		});
+	}
+
+	// Renders a label that is referenced in the text but has no definition
+	private createOrphanedReferenceElement(number: string, references: OrphanedReference[], container: Element) {
+		const footnoteEl = container.createEl('div', {
+			cls: 'footnote-item footnote-missing'
+		});
+
+		const headerEl = footnoteEl.createEl('div', {
+			cls: 'footnote-header-info'
+		});
+		const numberContainer = headerEl.createEl('div', {
+			cls: 'footnote-number-container'
+		});
+		numberContainer.createEl('span', {
+			cls: 'footnote-number',
+			text: `[${number}]`
+		});
+		headerEl.createEl('span', {
+			cls: 'footnote-missing-indicator',
+			text: 'No definition'
+		});
+
+		const contentEl = footnoteEl.createEl('div', {
+			cls: 'footnote-content'
+		});
+		const referencesEl = contentEl.createEl('div', {
+			cls: 'footnote-references'
+		});
+		referencesEl.createEl('span', {
+			cls: 'footnote-references-label',
+			text: 'References:'
+		});
+
+		references.forEach((ref, index) => {
+			const refEl = referencesEl.createEl('button', {
+				cls: 'footnote-reference-btn',
+				text: `Line ${ref.line + 1}`,
+				attr: {
+					title: `Go to reference ${index + 1} on line ${ref.line + 1}`
+				}
+			});
+			refEl.addEventListener('click', (e) => {
+				e.stopPropagation();
+				e.preventDefault();
+				this.plugin.setSkipRefreshPeriod(1500);
+				this.plugin.highlightOrphanedReferenceInEditor(number, index);
+			});
+		});
+
+		const actionsEl = footnoteEl.createEl('div', {
+			cls: 'footnote-actions'
+		});
+
+		const createBtn = actionsEl.createEl('button', {
+			text: 'Create definition',
+			cls: 'footnote-btn footnote-save-btn',
+			attr: {
+				title: `Add an empty [^${number}] definition to the footnotes section`
+			}
+		});
+		createBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.plugin.createMissingDefinition(number);
+		});
+
+		const removeBtn = actionsEl.createEl('button', {
+			cls: 'footnote-btn footnote-delete-btn',
+			attr: {
+				title: 'Remove reference'
+			}
+		});
+		setIcon(removeBtn, 'trash-2');
+		removeBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			const count = references.length;
+			const confirmRemove = confirm(`Are you sure you want to remove ${count === 1 ? 'the reference' : `all ${count} references`} to missing footnote [${number}]?`);
+			if (confirmRemove) {
+				this.plugin.removeOrphanedReferences(number);
+			}
+		});
+	}
+
+	private jumpToFootnoteDefinition(footnote: FootnoteData) {
+		this.debug('jumpToFootnoteDefinition called for footnote:', footnote.number);
+
+		let activeEditor: Editor | null = null;
+
+		let currentFile = this.app.workspace.getActiveFile();
+		if (!currentFile && this.currentFile) {
+			currentFile = this.currentFile;
+		}
+
+		if (currentFile) {
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === currentFile) {
+					activeEditor = view.editor;
+					break;
+				}
+			}
+		}
+
+		if (!activeEditor) {
+			new Notice('Could not find editor to navigate to footnote');
+			return;
+		}
+
+		const content = activeEditor.getValue();
+		const definition = new FootnoteParser(content).getDefinitions().find(d => d.number === footnote.number);
+
+		if (definition) {
+			const line = definition.line;
+			this.debug('Found footnote definition at line:', line);
+			activeEditor.setCursor({
+				line,
+				ch: 0
+			});
+			activeEditor.scrollIntoView({
+				from: {
+					line,
+					ch: 0
+				},
+				to: {
+					line,
+					ch: 0
+				}
+			}, true);
+			activeEditor.focus();
+			new Notice(`Jumped to footnote [${footnote.number}] definition`);
+			return;
+		}
+
+		new Notice(`Could not find definition for footnote [${footnote.number}]`);
+	}
+
+	updateFootnoteInEditor(footnote: FootnoteData, newContent: string) {
+		this.debug('updateFootnoteInEditor called with:', newContent);
+
+		let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		let currentFile = this.app.workspace.getActiveFile();
+
+		if (!activeView && currentFile) {
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === currentFile) {
+					activeView = view;
+					break;
+				}
+			}
+		}
+
+		if (!activeView && this.currentFile) {
+			currentFile = this.currentFile;
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === currentFile) {
+					activeView = view;
+					break;
+				}
+			}
+		}
+
+		if (!activeView) {
+			this.debug('No active view found for updating footnote');
+			return;
+		}
+
+		const editor = activeView.editor;
+		const currentContent = editor.getValue();
+
+		if (footnote.isInline) {
+			const matchingInline = this.plugin.extractInlineFootnotes(currentContent).find(f => f.number === footnote.number);
+			if (!matchingInline) {
+				this.debug('Could not find matching inline footnote in current content');
+				this.refresh();
+				return;
+			}
+			this.performInlineFootnoteUpdate(editor, matchingInline, newContent);
+			return;
+		}
+
+		const { referencedFootnotes, unreferencedFootnotes } = this.plugin.extractFootnotesWithUnreferenced(currentContent);
+		const allFootnotes = [...referencedFootnotes, ...unreferencedFootnotes];
+		const matchingFootnote = allFootnotes.find(f => f.number === footnote.number);
+
+		if (!matchingFootnote) {
+			this.debug('Could not find matching footnote in current content');
+			this.refresh();
+			return;
+		}
+
+		this.debug('Found matching footnote with current positions:', matchingFootnote);
+		this.performFootnoteUpdate(editor, matchingFootnote, newContent);
+	}
+
+	private performFootnoteUpdate(editor: any, footnote: FootnoteData, newContent: string) {
+		const batch = new EditBatch(editor.getValue());
+
+		const newDefinition = this.plugin.formatFootnoteDefinition(footnote.number, newContent);
+
+		this.debug('Replacing footnote definition at positions', footnote.definition.startPos, '-', footnote.definition.endPos);
+		this.debug('Old definition:', footnote.definition.fullMatch);
+		this.debug('New definition:', newDefinition);
+
+		batch.replace(footnote.definition.startPos, footnote.definition.endPos, newDefinition);
+		batch.apply(editor);
+
+		new Notice('Footnote updated');
+
+		setTimeout(() => {
+			this.debug('Refreshing view after footnote update');
+			this.refresh();
+		}, 100);
+	}
+
+	private performInlineFootnoteUpdate(editor: any, footnote: FootnoteData, newContent: string) {
+		const batch = new EditBatch(editor.getValue());
+
+		// Inline footnotes cannot contain line breaks
+		const newInline = `^[${newContent.replace(/\s*\n\s*/g, ' ')}]`;
+		batch.replace(footnote.definition.startPos, footnote.definition.endPos, newInline);
+		batch.apply(editor);
+
+		new Notice('Inline footnote updated');
+
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private splitFootnote(footnote: FootnoteData) {
+		const newLabels = this.plugin.splitFootnote(footnote);
+		if (!newLabels) return;
+
+		this.pendingEditLabels = new Set(newLabels);
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private openDeleteReferencesModal(footnote: FootnoteData) {
+		const editor = this.plugin.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
+
+		const content = editor.getValue();
+		const current = this.plugin.extractFootnotes(content).find(f => f.number === footnote.number);
+		if (!current || current.references.length === 0) {
+			this.refresh();
+			return;
+		}
+
+		new DeleteReferencesModal(this.app, this.plugin, current, content, (referenceIndices) => {
+			this.deleteFootnoteFromEditor(current, referenceIndices);
+		}).open();
+	}
+
+	// With referenceIndices, only those references are deleted (and the definition once none remain)
+	deleteFootnoteFromEditor(footnote: FootnoteData, referenceIndices?: number[]) {
+		this.debug('deleteFootnoteFromEditor called for:', footnote);
+
+		let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		let currentFile = this.app.workspace.getActiveFile();
+
+		if (!activeView && currentFile) {
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === currentFile) {
+					activeView = view;
+					break;
+				}
+			}
+		}
+
+		if (!activeView && this.currentFile) {
+			currentFile = this.currentFile;
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === currentFile) {
+					activeView = view;
+					break;
+				}
+			}
+		}
+
+		if (!activeView) {
+			this.debug('No active view found for deleting footnote');
+			return;
+		}
+
+		const editor = activeView.editor;
+		const currentContent = editor.getValue();
+
+		if (footnote.isInline) {
+			const matchingInline = this.plugin.extractInlineFootnotes(currentContent).find(f => f.number === footnote.number);
+			if (matchingInline) {
+				this.performInlineFootnoteDeletion(editor, matchingInline);
+			} else {
+				this.refresh();
+			}
+			return;
+		}
+
+		// NEW: Handle unreferenced footnotes differently
+		if (footnote.isUnreferenced) {
+			this.performUnreferencedFootnoteDeletion(editor, footnote);
+			return;
+		}
+
+		const {
+			referencedFootnotes
+		} = this.plugin.extractFootnotesWithUnreferenced(currentContent);
+		const matchingFootnote = referencedFootnotes.find(f => f.number === footnote.number);
+
+		if (!matchingFootnote) {
+			this.debug('Could not find matching footnote to delete');
+			this.refresh();
+			return;
+		}
+
+		if (!referenceIndices || referenceIndices.length >= matchingFootnote.references.length) {
+			this.performFullFootnoteDeletion(editor, matchingFootnote);
+		} else {
+			this.performReferenceDeletion(editor, matchingFootnote, referenceIndices);
+		}
+	}
+
+	// NEW: Method to delete unreferenced footnotes
+	private performUnreferencedFootnoteDeletion(editor: any, footnote: FootnoteData) {
+		const batch = new EditBatch(editor.getValue());
+
+		// Just delete the definition since there are no references
+		batch.deleteDefinition(footnote.definition);
+		batch.apply(editor);
+		new Notice(`Unreferenced footnote [${footnote.number}] deleted`);
+
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private performInlineFootnoteDeletion(editor: any, footnote: FootnoteData) {
+		const batch = new EditBatch(editor.getValue());
+		batch.deleteSpan(footnote.definition.startPos, footnote.definition.endPos);
+		batch.apply(editor);
+		new Notice('Inline footnote deleted');
+
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private performFullFootnoteDeletion(editor: any, footnote: FootnoteData) {
+		const batch = new EditBatch(editor.getValue());
+
+		batch.deleteDefinition(footnote.definition);
+		footnote.references.forEach(ref => {
+			batch.deleteSpan(ref.startPos, ref.endPos);
+		});
+
+		batch.apply(editor);
+		new Notice(`Footnote [${footnote.number}] deleted completely`);
+
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private performReferenceDeletion(editor: any, footnote: FootnoteData, referenceIndices: number[]) {
+		const batch = new EditBatch(editor.getValue());
+		referenceIndices.forEach(index => {
+			const reference = footnote.references[index];
+			if (reference) {
+				batch.deleteSpan(reference.startPos, reference.endPos);
+			}
+		});
+
+		batch.apply(editor);
+		new Notice(`${referenceIndices.length} reference(s) to footnote [${footnote.number}] deleted`);
+
+		setTimeout(() => {
+			this.refresh();
+		}, 100);
+	}
+
+	private renderFootnoteMarkdown(content: string, el: HTMLElement) {
+		el.empty();
+		MarkdownRenderer.renderMarkdown(content, el, '', this);
+	}
+
+	private highlightSearchInElement(el: HTMLElement, searchTerm: string) {
+		const textNodes: Node[] = [];
+		const walk = document.createTreeWalker(el, NodeFilter.SHOW_TEXT, null);
+		while (walk.nextNode()) {
+			textNodes.push(walk.currentNode);
+		}
+
+		textNodes.forEach(node => {
+			if (node.nodeValue) {
+				const highlighted = this.highlightSearchText(node.nodeValue, searchTerm);
+				if (highlighted !== node.nodeValue) {
+					const span = document.createElement('span');
+					span.innerHTML = highlighted;
+					node.parentNode?.replaceChild(span, node);
+				}
+			}
+		});
+	}
+
+	private filterAndRenderListView(footnotes: FootnoteData[], container: Element, searchTerm: string) {
+		const filteredFootnotes = footnotes.filter(footnote =>
+			footnote.content.toLowerCase().includes(searchTerm) ||
+			footnote.number.toLowerCase().includes(searchTerm)
+		);
+
+		if (filteredFootnotes.length === 0) {
+			container.createEl('div', {
+				text: 'No matching footnotes found',
+				cls: 'footnotes-empty'
+			});
+			return;
+		}
+
+		this.renderListView(filteredFootnotes, container);
+	}
+
+	private removeCursorListener() {
+		if (this.cursorListener) {
+			this.app.workspace.off('cursor-activity', this.cursorListener);
+			this.cursorListener = undefined;
+		}
+	}
+
+	expandPathToFootnote(footnoteNumber: string, callback?: () => void) {
+		this.debug('Expanding path to footnote:', footnoteNumber);
+
+		const footnoteElements = this.containerEl.querySelectorAll('.footnote-number');
+		let targetFootnote: HTMLElement | null = null;
+
+		footnoteElements.forEach(el => {
+			if (el.textContent === `[${footnoteNumber}]`) {
+				targetFootnote = el.closest('.footnote-item') as HTMLElement;
+			}
+		});
+
+		if (!targetFootnote) {
+			this.debug('Footnote not found in view');
+			if (callback) callback();
+			return;
+		}
+
+		let currentEl = targetFootnote.parentElement;
+		const sectionsToExpand: RenderedGroup[] = [];
+
+		while (currentEl && currentEl !== this.containerEl) {
+			if (currentEl.classList.contains('footnote-group-content')) {
+				const headerSection = currentEl.parentElement;
+				if (headerSection) {
+					const collapseIcon = headerSection.querySelector('.footnote-collapse-icon');
+					if (collapseIcon) {
+						const group = this.renderedGroups.find(r => r.collapseIcon === collapseIcon);
+						if (group && group.group.isCollapsed) {
+							sectionsToExpand.push(group);
+						}
+					}
+				}
+			}
+			currentEl = currentEl.parentElement;
+		}
+
+		this.debug('Sections to expand:', sectionsToExpand.length);
+
+		sectionsToExpand.reverse().forEach((section, index) => {
+			setTimeout(() => {
+				this.debug('Expanding section:', index + 1);
+				section.group.isCollapsed = false;
+				setIcon(section.collapseIcon as HTMLElement, 'chevron-down');
+				section.contentElement.style.display = 'block';
+				this.hasManualExpansions = true;
+				this.debug('Updated group collapsed state');
+			
+				// Call callback after last expansion
+				if (index === sectionsToExpand.length - 1 && callback) {
+					callback();
+				}
+			}, index * 50); // Stagger expansions
+		});
+	
+		// If no sections to expand, call callback immediately
+		if (sectionsToExpand.length === 0 && callback) {
+			callback();
+		}
+	}
+
+	private scrollToFootnote(footnoteEl: HTMLElement) {
+		const container = this.containerEl.children[1];
+		const containerRect = container.getBoundingClientRect();
+		const footnoteRect = footnoteEl.getBoundingClientRect();
+	
+		// Calculate the scroll position to center the footnote in the view
+		const currentScroll = container.scrollTop;
+		const targetScroll = currentScroll + (footnoteRect.top - containerRect.top) - (containerRect.height / 3);
+	
+		this.debug('Scrolling container. Current scroll:', currentScroll, 'Target scroll:', targetScroll);
+	
+		container.scrollTo({
+			top: Math.max(0, targetScroll),
+			behavior: 'smooth'
+		});
+	}
+
+	private highlightFootnote(footnoteEl: HTMLElement) {
+		// Remove any existing highlights first
+		this.containerEl.querySelectorAll('.footnote-item-hover').forEach(el => {
+			el.classList.remove('footnote-item-hover');
 		});
 	
-		// Add highlight class
-		footnoteEl.classList.add('footnote-item-hover');
-	
-		// Remove highlight after a delay
-		setTimeout(() => {
-			footnoteEl.classList.remove('footnote-item-hover');
-		}, 1500);
-	
+		// Add highlight class
+		footnoteEl.classList.add('footnote-item-hover');
+	
+		// Remove highlight after a delay
+		setTimeout(() => {
+			footnoteEl.classList.remove('footnote-item-hover');
+		}, 1500);
+	
 		this.debug('Highlighting applied, scroll initiated');
 	}
-	// ADD this new method to the FootnotesView class (around line 250-300)
-	// This replaces the existing jumpToFootnote method
+	// ADD this new method to the FootnotesView class (around line 250-300)
+	// This replaces the existing jumpToFootnote method
+
+	jumpToFootnote(footnoteNumber: string) {
+	    this.debug('FootnotesView.jumpToFootnote called for:', footnoteNumber);
+    
+	    // Find all footnote number elements
+	    const footnoteElements = this.containerEl.querySelectorAll('.footnote-number');
+	    this.debug('Found footnote elements:', footnoteElements.length);
+    
+	    let targetElement: Element | null = null;
+    
+	    // Search for the matching footnote number
+	    footnoteElements.forEach((element) => {
+	        const numberText = element.textContent?.trim();
+	        this.debug('Checking footnote number element:', numberText);
+        
+	        if (numberText === `[${footnoteNumber}]`) {
+	            this.debug('Found matching footnote, expanding section and scrolling');
+	            targetElement = element;
+	            return;
+	        }
+	    });
+    
+	    if (!targetElement) {
+	        this.debug('Footnote not found:', footnoteNumber);
+	        return;
+	    }
+    
+	    // Find the footnote item container
+	    const footnoteItem = targetElement.closest('.footnote-item');
+	    if (!footnoteItem) {
+	        this.debug('Could not find footnote item container');
+	        return;
+	    }
+    
+	    // Check if the footnote is in a collapsed section and expand it
+	    let currentElement = footnoteItem.parentElement;
+	    while (currentElement && currentElement !== this.containerEl) {
+	        if (currentElement.classList.contains('footnote-group-content')) {
+	            if (currentElement.style.display === 'none') {
+	                this.debug('Expanding section containing footnote');
+	                currentElement.style.display = 'block';
+                
+	                // Find and update the collapse icon
+	                const headerSection = currentElement.parentElement?.querySelector('.footnote-header');
+	                if (headerSection) {
+	                    const collapseIcon = headerSection.querySelector('.footnote-collapse-icon');
+	                    if (collapseIcon) {
+	                        // Update the icon to show expanded state
+	                        collapseIcon.innerHTML = `<svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M6 9l6 6 6-6"/></svg>`;
+	                    }
+	                }
+	            }
+	        }
+	        currentElement = currentElement.parentElement;
+	    }
+    
+	    // Get the scrollable container (the main footnotes panel container)
+	    const scrollContainer = this.containerEl.children[1]; // This should be the main content container
+    
+	    if (!scrollContainer) {
+	        this.debug('Could not find scroll container');
+	        return;
+	    }
+    
+	    // Calculate the scroll position
+	    const containerRect = scrollContainer.getBoundingClientRect();
+	    const footnoteRect = footnoteItem.getBoundingClientRect();
+    
+	    // Calculate the target scroll position
+	    // We need to account for the sticky header height
+	    const stickyHeader = this.containerEl.querySelector('.footnotes-header');
+	    const headerHeight = stickyHeader ? stickyHeader.getBoundingClientRect().height : 80;
+    
+	    // We want the footnote to appear below the sticky header, with some padding
+	    const currentScrollTop = scrollContainer.scrollTop;
+	    const relativeTop = footnoteRect.top - containerRect.top;
+	    const targetScrollTop = currentScrollTop + relativeTop - headerHeight - 20; // header height + 20px padding
+    
+	    this.debug('Scrolling container. Current scroll:', currentScrollTop, 'Target scroll:', targetScrollTop);
+    
+	    // Apply highlighting to the footnote
+	    footnoteItem.classList.add('footnote-item-hover');
+    
+	    // Perform the scroll with smooth behavior
+	    scrollContainer.scrollTo({
+	        top: Math.max(0, targetScrollTop), // Ensure we don't scroll to negative position
+	        behavior: 'smooth'
+	    });
+    
+	    this.debug('Highlighting applied, scroll initiated');
+    
+	    // Remove highlighting after a short delay
+	    setTimeout(() => {
+	        footnoteItem.classList.remove('footnote-item-hover');
+	    }, 2000);
+	}
+}
+
+// Vault-wide footnote audit view
+class FootnotesAuditView extends ItemView {
+	plugin: FootnotesManagerPlugin;
+	private results: FileAuditResult[] = [];
+	private scannedFileCount: number = 0;
+	private isScanning: boolean = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: FootnotesManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	private debug(message: string, ...args: any[]) {
+		if (this.plugin.settings.debugMode) {
+			console.log(`[Footnotes Audit] ${message}`, ...args);
+		}
+	}
+
+	getViewType() {
+		return FOOTNOTES_AUDIT_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return 'Footnote audit';
+	}
+
+	getIcon() {
+		return 'list-checks';
+	}
+
+	async onOpen() {
+		// Keep results for edited files up to date while the view is open
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file: TFile) => {
+				if (!this.isScanning && this.scannedFileCount > 0) {
+					this.rescanFile(file);
+				}
+			})
+		);
+
+		await this.scanVault();
+	}
+
+	async scanVault() {
+		if (this.isScanning) return;
+		this.isScanning = true;
+		this.renderStatus('Scanning vault for footnote problems...');
+
+		const files = this.app.vault.getMarkdownFiles();
+		const results: FileAuditResult[] = [];
+
+		try {
+			for (const file of files) {
+				const result = await this.auditFile(file);
+				if (result) {
+					results.push(result);
+				}
+			}
+		} finally {
+			this.isScanning = false;
+		}
+
+		this.results = results.sort((a, b) => a.file.path.localeCompare(b.file.path));
+		this.scannedFileCount = files.length;
+		this.debug('Audit finished:', results.length, 'of', files.length, 'files have problems');
+		this.render();
+	}
+
+	private async rescanFile(file: TFile) {
+		const result = await this.auditFile(file);
+		this.results = this.results.filter(r => r.file.path !== file.path);
+		if (result) {
+			this.results.push(result);
+			this.results.sort((a, b) => a.file.path.localeCompare(b.file.path));
+		}
+		this.render();
+	}
+
+	// Returns null when the file has no footnote problems
+	private async auditFile(file: TFile): Promise < FileAuditResult | null > {
+		// Files the metadata cache knows have no footnotes can be skipped without reading them
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (cache && !cache.footnotes && !cache.footnoteRefs) {
+			return null;
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const issues = this.plugin.collectAuditIssues(content, this.plugin.getStartNumber(content, file));
+		return issues.length > 0 ? {
+			file,
+			issues
+		} : null;
+	}
+
+	private renderStatus(text: string) {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.createEl('div', {
+			text,
+			cls: 'footnotes-empty'
+		});
+	}
+
+	private render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		const currentScroll = container.scrollTop;
+		container.empty();
+
+		const header = container.createEl('div', {
+			cls: 'footnotes-header'
+		});
+		const titleRow = header.createEl('div', {
+			cls: 'footnotes-title-row'
+		});
+		titleRow.createEl('h4', {
+			text: 'Footnote audit',
+			cls: 'footnotes-title'
+		});
+		const controlsContainer = titleRow.createEl('div', {
+			cls: 'footnotes-controls'
+		});
+		const rescanBtn = controlsContainer.createEl('button', {
+			cls: 'footnotes-control-btn',
+			attr: {
+				title: 'Rescan vault'
+			}
+		});
+		setIcon(rescanBtn, 'refresh-cw');
+		rescanBtn.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.scanVault();
+		};
+
+		const issueCount = this.results.reduce((total, result) => total + result.issues.length, 0);
+		header.createEl('div', {
+			cls: 'footnotes-audit-summary',
+			text: `${issueCount} problem${issueCount !== 1 ? 's' : ''} in ${this.results.length} of ${this.scannedFileCount} notes`
+		});
+
+		if (this.results.length === 0) {
+			container.createEl('div', {
+				text: 'No footnote problems found',
+				cls: 'footnotes-empty'
+			});
+			return;
+		}
+
+		const list = container.createEl('div', {
+			cls: 'footnotes-list'
+		});
+		this.results.forEach(result => {
+			this.renderFileResult(result, list);
+		});
+
+		container.scrollTop = currentScroll;
+	}
+
+	private renderFileResult(result: FileAuditResult, container: Element) {
+		const fileSection = container.createEl('div', {
+			cls: 'footnote-header-section footnotes-audit-file'
+		});
+
+		const fileHeader = fileSection.createEl('div', {
+			cls: 'footnote-header'
+		});
+		const collapseIcon = fileHeader.createEl('span', {
+			cls: 'footnote-collapse-icon'
+		});
+		setIcon(collapseIcon, 'chevron-down');
+
+		fileHeader.createEl('span', {
+			cls: 'footnote-header-text',
+			text: `${result.file.basename} (${result.issues.length})`,
+			attr: {
+				title: result.file.path
+			}
+		});
+
+		const renumberBtn = fileHeader.createEl('button', {
+			cls: 'footnotes-control-btn renumber-btn',
+			attr: {
+				title: 'Renumber footnotes in this note'
+			}
+		});
+		setIcon(renumberBtn, 'list-ordered');
+		renumberBtn.onclick = async (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			const editor = await this.plugin.openFileInEditor(result.file);
+			if (editor) {
+				this.plugin.renumberFootnotes(editor);
+			}
+		};
+
+		const issuesEl = fileSection.createEl('div', {
+			cls: 'footnote-group-content'
+		});
+
+		collapseIcon.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			const collapsed = issuesEl.style.display === 'none';
+			issuesEl.style.display = collapsed ? 'block' : 'none';
+			setIcon(collapseIcon, collapsed ? 'chevron-down' : 'chevron-right');
+		});
+
+		result.issues.forEach(issue => {
+			const issueEl = issuesEl.createEl('div', {
+				cls: `footnotes-audit-issue footnotes-audit-${issue.kind}`
+			});
+			issueEl.createEl('span', {
+				cls: 'footnotes-audit-issue-line',
+				text: `Line ${issue.line + 1}`
+			});
+			issueEl.createEl('span', {
+				cls: 'footnotes-audit-issue-text',
+				text: issue.message
+			});
+
+			issueEl.addEventListener('click', async (e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				await this.openIssue(result.file, issue);
+			});
+		});
+	}
+
+	private async openIssue(file: TFile, issue: FootnoteAuditIssue) {
+		const editor = await this.plugin.openFileInEditor(file);
+		if (!editor) {
+			new Notice(`Could not open ${file.path}`);
+			return;
+		}
+
+		if (issue.footnote && issue.footnote.references.length > 0) {
+			this.plugin.highlightFootnoteInEditor(issue.footnote, 0, file);
+			return;
+		}
+
+		const position = {
+			line: issue.line,
+			ch: 0
+		};
+		editor.setCursor(position);
+		editor.scrollIntoView({
+			from: position,
+			to: position
+		}, true);
+		editor.focus();
+	}
+}
+
+export default class FootnotesManagerPlugin extends Plugin {
+	settings: FootnotesManagerSettings;
+	private refreshTimeout: number | null = null;
+	public skipNextRefresh: boolean = false;
+	private allHeaders: HeaderData[] = [];
+	private lastEditPosition: EditorPosition | null = null;
+	public skipRefreshUntil: number = 0;
+	public isNavigating: boolean = false;
+	private cursorCheckTimeout: number | null = null;
+	private lastCheckedFootnote: string | null = null;
+	private cursorCheckInProgress: boolean = false;
+
+	private debug(message: string, ...args: any[]) {
+		if (this.settings.debugMode) {
+			console.log(`[Footnotes Manager] ${message}`, ...args);
+		}
+	}
+
+	async onload() {
+		await this.loadSettings();
+
+		this.registerView(
+			FOOTNOTES_VIEW_TYPE,
+			(leaf) => new FootnotesView(leaf, this)
+		);
+
+		this.registerView(
+			FOOTNOTES_AUDIT_VIEW_TYPE,
+			(leaf) => new FootnotesAuditView(leaf, this)
+		);
+
+		this.registerEditorSuggest(new FootnoteSuggest(this.app, this));
+		this.registerEditorExtension(this.buildEditorExtension());
+
+		this.addRibbonIcon('hash', 'Toggle Footnotes Panel', () => {
+			this.activateView();
+		});
+
+		this.addCommand({
+			id: 'toggle-footnotes-panel',
+			name: 'Toggle Footnotes Panel',
+			callback: () => {
+				this.activateView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-footnote-audit',
+			name: 'Audit footnotes across vault',
+			callback: () => {
+				this.activateAuditView();
+			}
+		});
+
+		this.addCommand({
+			id: 'insert-footnote',
+			name: 'Insert footnote',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.insertFootnote(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'move-selection-to-footnote',
+			name: 'Move selection to footnote',
+			editorCheckCallback: (checking: boolean, editor: Editor) => {
+				if (!editor.somethingSelected()) return false;
+				if (!checking) {
+					this.moveSelectionToFootnote(editor);
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor) => {
+				if (!editor.somethingSelected()) return;
+				menu.addItem(item => item
+					.setTitle('Move selection to footnote')
+					.setIcon('corner-right-down')
+					.onClick(() => this.moveSelectionToFootnote(editor)));
+			})
+		);
+
+		this.addCommand({
+			id: 'unwrap-footnote-at-cursor',
+			name: 'Unwrap footnote under cursor into text',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.unwrapFootnoteAtCursor(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-footnotes-to-endnotes',
+			name: 'Convert footnotes to endnotes under the notes heading',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertFootnoteLayout(editor, 'document');
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-footnotes-to-section-endnotes',
+			name: 'Convert footnotes to endnotes at the end of each section',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertFootnoteLayout(editor, 'section');
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-endnotes-to-footnotes',
+			name: 'Convert endnotes back to footnotes',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertFootnoteLayout(editor, 'footnotes');
+			}
+		});
+
+		this.addCommand({
+			id: 'renumber-manuscript',
+			name: 'Renumber footnotes continuously across the manuscript',
+			callback: () => {
+				this.renumberManuscript();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-footnotes',
+			name: 'Export footnotes of current note',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.openExportFootnotesModal(editor.getValue(), view.file);
+			}
+		});
+
+		this.addCommand({
+			id: 'rename-footnote-label',
+			name: 'Rename footnote label under cursor',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.renameFootnoteAtCursor(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-inline-to-reference-footnote',
+			name: 'Convert inline footnote to reference footnote',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertInlineFootnoteAtCursor(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-reference-to-inline-footnote',
+			name: 'Convert reference footnote to inline',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertReferenceFootnoteAtCursorToInline(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-all-inline-to-reference-footnotes',
+			name: 'Convert all inline footnotes in note to reference footnotes',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertAllInlineFootnotes(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-all-reference-to-inline-footnotes',
+			name: 'Convert all single-reference footnotes in note to inline',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.convertAllReferenceFootnotesToInline(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'jump-to-footnotes',
+			name: 'Jump to footnotes section',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.jumpToFootnotesSection(editor);
+			}
+		});
+
+		this.addCommand({
+			id: 'return-to-edit-position',
+			name: 'Return to last edit position',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.returnToLastEditPosition(editor);
+			}
+		});
+
+		this.addSettingTab(new FootnotesManagerSettingTab(this.app, this));
+
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', () => {
+				if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
+					this.debug('Skipping refresh on active-leaf-change due to skip flags, skipNextRefresh:', this.skipNextRefresh, 'isNavigating:', this.isNavigating);
+					return;
+				}
+				this.refreshFootnotesView();
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('editor-change', (editor: Editor) => {
+				if (!this.skipNextRefresh) {
+					this.debounceRefresh();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('editor-change', (editor: Editor) => {
+				if (!this.skipNextRefresh) {
+					this.lastEditPosition = editor.getCursor();
+				}
+			})
+		);
+
+		if (this.settings.openOnStart) {
+			this.app.workspace.onLayoutReady(() => {
+				this.activateView();
+			});
+		}
+		this.registerEvent(
+		    this.app.workspace.on('active-leaf-change', () => {
+		        this.setupCursorListener();
+		    })
+		);
+
+		// Also call it initially
+		this.app.workspace.onLayoutReady(() => {
+		    this.setupCursorListener();
+		});	
+	}
+
+	// Hover previews of footnote definitions plus underlines for missing and unreferenced footnotes
+	private buildEditorExtension(): Extension[] {
+		const footnoteHover = hoverTooltip((view, pos) => {
+			const content = view.state.doc.toString();
+			const reference = new FootnoteParser(content).getReferences().find(ref => pos >= ref.startPos && pos <= ref.endPos);
+			if (!reference) return null;
+
+			const footnote = this.extractFootnotes(content).find(f => f.number === reference.number);
+			const sourcePath = view.state.field(editorInfoField, false)?.file?.path || '';
+
+			return {
+				pos: reference.startPos,
+				end: reference.endPos,
+				above: true,
+				create: () => {
+					const dom = createDiv({
+						cls: 'footnote-hover-tooltip'
+					});
+					const component = new Component();
+					component.load();
+
+					if (footnote) {
+						MarkdownRenderer.render(this.app, footnote.content || '(empty footnote)', dom, sourcePath, component);
+					} else {
+						dom.addClass('footnote-hover-missing');
+						dom.setText(`No definition for [^${reference.number}]`);
+					}
+
+					return {
+						dom,
+						destroy: () => component.unload()
+					};
+				}
+			};
+		});
+
+		const diagnostics = ViewPlugin.define(view => new FootnoteDiagnosticsPlugin(view, this), {
+			decorations: value => value.decorations
+		});
+
+		return [footnoteHover, diagnostics];
+	}
+
+	// Inserts a reference at the cursor, or in place of `replace` (e.g. text typed before autocomplete)
+	insertFootnote(editor: Editor, replace?: { from: EditorPosition, to: EditorPosition }) {
+		const from = replace ? replace.from : editor.getCursor();
+		const to = replace ? replace.to : from;
+		const label = this.createFootnote(editor, editor.posToOffset(from), editor.posToOffset(to), '');
+		if (!label) return;
+
+		// Place the cursor at the end of the new definition, ready for typing
+		const definition = new FootnoteParser(editor.getValue()).getDefinitions().find(d => d.number === label);
+		if (definition) {
+			editor.setCursor(editor.offsetToPos(definition.endPos));
+		}
+	}
+
+	moveSelectionToFootnote(editor: Editor) {
+		const selection = editor.getSelection();
+		if (selection.trim() === '') {
+			new Notice('Select the text to move into a footnote');
+			return;
+		}
+
+		const from = editor.posToOffset(editor.getCursor('from'));
+		const to = editor.posToOffset(editor.getCursor('to'));
+
+		// Footnotes cannot nest, and moved references would escape sequential renumbering
+		const parser = new FootnoteParser(editor.getValue());
+		const containsFootnotes = parser.getReferences().some(ref => ref.startPos < to && ref.endPos > from) ||
+			parser.getDefinitions().some(definition => definition.startPos < to && definition.endPos > from);
+		if (containsFootnotes) {
+			new Notice('The selection contains footnotes; move them out of it first');
+			return;
+		}
+
+		// Paragraphs of the selection become indented continuation paragraphs of the definition
+		const definitionContent = selection.trim()
+			.split(/\n[ \t]*\n\s*/)
+			.map(paragraph => paragraph.split('\n').map(line => line.trim()).join('\n'))
+			.join('\n\n');
+
+		const label = this.createFootnote(editor, from, to, definitionContent);
+		if (!label) return;
+
+		editor.setCursor(editor.offsetToPos(from + `[^${label}]`.length));
+	}
+
+	// Replaces [from, to) with a reference to a new footnote, numbered like insertFootnote, and adds its
+	// definition where the placement setting puts it. Returns the new label, or null if nothing was changed.
+	private createFootnote(editor: Editor, from: number, to: number, definitionContent: string): string | null {
+		const content = editor.getValue();
+		const batch = new EditBatch(content);
+		const startNumber = this.getEditorStartNumber(editor);
+		let label: string;
+		let shiftedCount = 0;
+
+		if (this.settings.insertInSequence) {
+			const sequential = this.planSequentialInsertion(batch, from, to, definitionContent, startNumber);
+			label = sequential.label;
+			shiftedCount = sequential.shiftedCount;
+		} else if (this.settings.chapterNumbering) {
+			label = this.getNextChapterFootnoteLabel(content.substring(0, from) + content.substring(to), from);
+			batch.replace(from, to, `[^${label}]`);
+			this.insertDefinitions(batch, [{
+				text: this.formatFootnoteDefinition(label, definitionContent),
+				anchor: from
+			}]);
+		} else {
+			label = this.getNextFootnoteNumber(content.substring(0, from) + content.substring(to), [], startNumber).toString();
+			batch.replace(from, to, `[^${label}]`);
+			this.insertDefinitions(batch, [{
+				text: this.formatFootnoteDefinition(label, definitionContent),
+				anchor: from
+			}]);
+		}
+		if (!batch.apply(editor)) return null;
+
+		this.refreshFootnotesView();
+		new Notice(shiftedCount > 0 ?
+			`Footnote ${label} inserted, ${shiftedCount} later footnote(s) renumbered` :
+			`Footnote ${label} inserted`);
+		return label;
+	}
+
+	// Numbers a new footnote by its position and shifts every later label of its sequence (the note, or its
+	// chapter under chapter numbering) up by one, keeping definitions sorted when they are collected in one place
+	private planSequentialInsertion(batch: EditBatch, from: number, to: number, definitionContent: string, startNumber: number): {
+		label: string,
+		shiftedCount: number
+	} {
+		const parser = new FootnoteParser(batch.content);
+		// References inside the replaced range are being overwritten, e.g. a half-typed "[^3]"
+		const references = parser.getReferences().filter(ref => ref.endPos <= from || ref.startPos >= to);
+		const definitions = parser.getDefinitions();
+
+		const chapterLevel = this.getChapterLevel();
+		const chapter = chapterLevel !== null ? this.getChapterOf(this.getChapterHeadings(batch.content, chapterLevel), parser.getLineNumber(from)) : 0;
+		// Number of a label within the sequence the new footnote joins, null for other chapters and named labels
+		const sequenceNumber = (label: string): number | null => {
+			const position = this.parseSchemeLabel(label, chapterLevel);
+			return position && position.chapter === chapter ? position.number : null;
+		};
+
+		const precedingNumbers = references
+			.filter(ref => ref.endPos <= from)
+			.map(ref => sequenceNumber(ref.number))
+			.filter((number): number is number => number !== null);
+		const newNumber = precedingNumbers.length > 0 ? Math.max(...precedingNumbers) + 1 : chapter === 0 ? startNumber : 1;
+		const label = this.formatChapterLabel(chapter, newNumber);
+
+		// Later footnotes only move when the new number is already taken
+		const isTaken = references.some(ref => ref.number === label) || definitions.some(d => d.number === label);
+		const shift = (old: string) => {
+			const number = sequenceNumber(old);
+			return isTaken && number !== null && number >= newNumber ? this.formatChapterLabel(chapter, number + 1) : old;
+		};
+
+		const shiftedLabels = new Set < string > ();
+		references.forEach(ref => {
+			const shifted = shift(ref.number);
+			if (shifted !== ref.number) {
+				shiftedLabels.add(ref.number);
+				batch.replace(ref.startPos, ref.endPos, `[^${shifted}]`);
+			}
+		});
+		batch.replace(from, to, `[^${label}]`);
+
+		// Shifting keeps existing definitions in order, so only the new one needs its sorted place
+		const newDefinitions = [{
+			text: this.formatFootnoteDefinition(label, definitionContent),
+			number: label,
+			anchor: from
+		}];
+		const collectsDefinitions = this.settings.definitionPlacement === 'end-of-document' || this.settings.definitionPlacement === 'notes-heading';
+		const unplaced = collectsDefinitions ?
+			this.slotDefinitionsInBatch(batch, definitions.map(d => ({ startPos: d.startPos, endPos: d.endPos, number: shift(d.number) })), newDefinitions, chapterLevel) :
+			newDefinitions;
+
+		// Definitions are only relabelled, leaving the references they cite to the edits above
+		definitions.forEach(definition => {
+			const shifted = shift(definition.number);
+			if (shifted !== definition.number) {
+				shiftedLabels.add(definition.number);
+				batch.replace(definition.startPos, definition.startPos + `[^${definition.number}]`.length, `[^${shifted}]`);
+			}
+		});
+		this.insertDefinitions(batch, unplaced);
+
+		return {
+			label,
+			shiftedCount: shiftedLabels.size
+		};
+	}
+
+	// Lowest free footnote number from `startNumber` on, filling gaps first. Labels in `reserved` count as taken.
+	getNextFootnoteNumber(content: string, reserved: string[] = [], startNumber = 1): number {
+		const parser = new FootnoteParser(content);
+		const usedLabels = [
+			...parser.getDefinitions().map(d => d.number),
+			...parser.getReferences().map(r => r.number),
+			...reserved
+		];
+
+		const existingNumbers = usedLabels.filter(label => this.isNumericLabel(label)).map(label => parseInt(label)).sort((a, b) => a - b);
+		let nextNumber = startNumber;
+		for (const num of existingNumbers) {
+			if (num === nextNumber) {
+				nextNumber++;
+			} else if (num > nextNumber) {
+				break;
+			}
+		}
+		return nextNumber;
+	}
+
+	getChapterLevel(): number | null {
+		return this.settings.chapterNumbering ? this.settings.chapterHeadingLevel : null;
+	}
+
+	// Headings that open a chapter; footnotes before the first one belong to chapter 0
+	getChapterHeadings(content: string, level: number): HeaderData[] {
+		const parser = new FootnoteParser(content);
+		return this.extractHeaders(content).filter(h => h.level === level && !parser.isExcluded(parser.getLineStart(h.line)));
+	}
+
+	getChapterOf(chapterHeadings: HeaderData[], line: number): number {
+		return chapterHeadings.filter(h => h.line <= line).length;
+	}
+
+	// Labels of chapter numbering carry the chapter as a prefix, e.g. [^2-5]; chapter 0 uses plain numbers
+	formatChapterLabel(chapter: number, number: number): string {
+		return chapter === 0 ? number.toString() : `${chapter}-${number}`;
+	}
+
+	// Chapter and number of a plain (`5`) or chapter-prefixed (`2-5`) label, null for named labels
+	parseSequenceLabel(label: string): { chapter: number, number: number } | null {
+		const match = /^(?:(\d+)-)?(\d+)$/.exec(label);
+		if (!match) return null;
+		return {
+			chapter: match[1] ? parseInt(match[1]) : 0,
+			number: parseInt(match[2])
+		};
+	}
+
+	// Chapter and number of a label under the given scheme; without chapter numbering only plain numbers count
+	parseSchemeLabel(label: string, chapterLevel: number | null): { chapter: number, number: number } | null {
+		if (chapterLevel !== null) return this.parseSequenceLabel(label);
+		return this.isNumericLabel(label) ? { chapter: 0, number: parseInt(label) } : null;
+	}
+
+	// Orders plain and chapter-prefixed labels by chapter, then number; named labels compare as equal
+	compareFootnoteLabels(a: string, b: string): number {
+		const first = this.parseSequenceLabel(a);
+		const second = this.parseSequenceLabel(b);
+		if (!first || !second) return 0;
+		return first.chapter - second.chapter || first.number - second.number;
+	}
+
+	// Lowest free number in the chapter containing `offset`. Labels in `reserved` count as taken.
+	getNextChapterFootnoteLabel(content: string, offset: number, reserved: string[] = []): string {
+		const parser = new FootnoteParser(content);
+		const chapter = this.getChapterOf(this.getChapterHeadings(content, this.settings.chapterHeadingLevel), parser.getLineNumber(offset));
+		const usedNumbers = [
+			...parser.getDefinitions().map(d => d.number),
+			...parser.getReferences().map(r => r.number),
+			...reserved
+		]
+			.map(label => this.parseSequenceLabel(label))
+			.filter((label): label is { chapter: number, number: number } => label !== null && label.chapter === chapter)
+			.map(label => label.number);
+
+		let nextNumber = 1;
+		while (usedNumbers.includes(nextNumber)) {
+			nextNumber++;
+		}
+		return this.formatChapterLabel(chapter, nextNumber);
+	}
+
+	// Numbers used by referenced footnotes in each chapter and the ones missing from its sequence.
+	// Plain numbers (chapter 0) count from `startNumber`, chapters from 1. Without chapter numbering,
+	// labels like [^2020-5] are named.
+	getChapterSequences(footnotes: FootnoteData[], startNumber = 1): Map < number, { numbers: number[], gaps: string[] } > {
+		const sequences = new Map < number, { numbers: number[], gaps: string[] } > ();
+		const chapterLevel = this.getChapterLevel();
+		footnotes.filter(f => f.references.length > 0).forEach(footnote => {
+			const label = this.parseSchemeLabel(footnote.number, chapterLevel);
+			if (!label) return;
+			const sequence = sequences.get(label.chapter) || {
+				numbers: [],
+				gaps: []
+			};
+			sequence.numbers.push(label.number);
+			sequences.set(label.chapter, sequence);
+		});
+
+		sequences.forEach((sequence, chapter) => {
+			sequence.numbers.sort((a, b) => a - b);
+			for (let i = chapter === 0 ? startNumber : 1; i < sequence.numbers[sequence.numbers.length - 1]; i++) {
+				if (!sequence.numbers.includes(i)) {
+					sequence.gaps.push(this.formatChapterLabel(chapter, i));
+				}
+			}
+		});
+		return sequences;
+	}
+
+	// Adds definitions to the batch where the placement setting puts them. Each anchor is the offset
+	// of the footnote's reference, which decides the section or paragraph for per-section placements.
+	insertDefinitions(batch: EditBatch, definitions: Array < { text: string, anchor: number } > ) {
+		if (definitions.length === 0) return;
+
+		const parser = new FootnoteParser(batch.content);
+		const insertions = new Map < number, {
+			prefix: string,
+			suffix: string,
+			texts: string[]
+		} > ();
+
+		definitions.forEach(definition => {
+			const target = this.getDefinitionInsertion(parser, batch.content, definition.anchor);
+			const insertion = insertions.get(target.offset);
+			if (insertion) {
+				insertion.texts.push(definition.text);
+			} else {
+				insertions.set(target.offset, {
+					prefix: target.prefix,
+					suffix: target.suffix,
+					texts: [definition.text]
+				});
+			}
+		});
+
+		insertions.forEach((insertion, offset) => {
+			batch.insert(offset, insertion.prefix + insertion.texts.join('\n') + insertion.suffix);
+		});
+	}
+
+	private getDefinitionInsertion(parser: FootnoteParser, content: string, anchor: number): {
+		offset: number,
+		prefix: string,
+		suffix: string
+	} {
+		const definitions = parser.getDefinitions();
+		const headings = this.extractHeaders(content).filter(h => !parser.isExcluded(parser.getLineStart(h.line)));
+
+		// End of the section starting at `heading`: the next heading of the same or a higher level
+		const getSectionEnd = (heading: HeaderData | null): number => {
+			const next = headings.find(h => heading ? h.line > heading.line && h.level <= heading.level : true);
+			return next ? parser.getLineStart(next.line) : content.length;
+		};
+
+		switch (this.settings.definitionPlacement) {
+			case 'end-of-section': {
+				const anchorLine = parser.getLineNumber(anchor);
+				const sectionHeadings = headings.filter(h => h.line <= anchorLine);
+				const heading = sectionHeadings[sectionHeadings.length - 1] || null;
+				const start = heading ? parser.getLineEnd(heading.line) : 0;
+				return this.getBlockEndInsertion(content, definitions, start, getSectionEnd(heading));
+			}
+
+			case 'after-paragraph': {
+				let line = parser.getLineNumber(anchor);
+				while (
+					line + 1 < parser.lineCount &&
+					parser.getLine(line + 1).trim() !== '' &&
+					!headings.some(h => h.line === line + 1)
+				) {
+					line++;
+				}
+
+				// Follow definitions already collected under this paragraph
+				let offset = parser.getLineEnd(line);
+				let followsDefinition = false;
+				let next = definitions.find(d => d.startPos > offset && content.substring(offset, d.startPos).trim() === '');
+				while (next) {
+					offset = next.endPos;
+					followsDefinition = true;
+					const previousEnd = offset;
+					next = definitions.find(d => d.startPos > previousEnd && content.substring(previousEnd, d.startPos).trim() === '');
+				}
+
+				return {
+					offset,
+					prefix: followsDefinition ? '\n' : '\n\n',
+					suffix: this.getBlankLineSuffix(content, offset)
+				};
+			}
+
+			case 'notes-heading': {
+				const headingText = this.settings.notesHeading.trim();
+				const notesHeading = headings.find(h => parser.getLine(h.line).trim() === headingText);
+				if (notesHeading) {
+					return this.getBlockEndInsertion(content, definitions, parser.getLineEnd(notesHeading.line), getSectionEnd(notesHeading));
+				}
+
+				// Create the heading at the end of the document
+				const separator = this.settings.notesHeadingSeparator ? '---\n\n' : '';
+				return {
+					offset: content.length,
+					prefix: this.getDocumentEndSeparator(content) + separator + headingText + '\n\n',
+					suffix: ''
+				};
+			}
+
+			default: {
+				const lastDefinition = definitions[definitions.length - 1];
+				if (lastDefinition) {
+					return {
+						offset: lastDefinition.endPos,
+						prefix: '\n',
+						suffix: ''
+					};
+				}
+				return {
+					offset: content.length,
+					prefix: this.getDocumentEndSeparator(content),
+					suffix: ''
+				};
+			}
+		}
+	}
+
+	// Insertion point after the last non-blank text of [start, end), joining a trailing run of definitions
+	private getBlockEndInsertion(content: string, definitions: FootnoteDefinition[], start: number, end: number): {
+		offset: number,
+		prefix: string,
+		suffix: string
+	} {
+		let offset = start + content.substring(start, end).replace(/\s+$/, '').length;
+		// A definition may end in whitespace of its own (e.g. an empty "[^1]: "), so snap to its end
+		const lastDefinition = definitions.find(d => d.startPos < offset && d.endPos >= offset);
+		const followsDefinition = !!lastDefinition;
+		if (lastDefinition) {
+			offset = lastDefinition.endPos;
+		}
+		return {
+			offset,
+			prefix: followsDefinition ? '\n' : offset === 0 ? '' : '\n\n',
+			suffix: this.getBlankLineSuffix(content, offset)
+		};
+	}
+
+	// Line breaks needed after an insertion at `offset` so that following text stays a separate block
+	private getBlankLineSuffix(content: string, offset: number): string {
+		const following = content.substring(offset);
+		if (following.trim() === '') return '';
+		const lineBreaks = (following.match(/^\s*/)?.[0].match(/\n/g) || []).length;
+		return lineBreaks >= 2 ? '' : '\n'.repeat(2 - lineBreaks);
+	}
+
+	private getDocumentEndSeparator(content: string): string {
+		if (content.trim() === '' || content.endsWith('\n\n')) return '';
+		return content.endsWith('\n') ? '\n' : '\n\n';
+	}
+
+	findReferenceAtCursor(editor: Editor): FootnoteReference | null {
+		const offset = editor.posToOffset(editor.getCursor());
+		const references = new FootnoteParser(editor.getValue()).getReferences();
+		return references.find(ref => offset >= ref.startPos && offset <= ref.endPos) || null;
+	}
+
+	findInlineFootnoteAtCursor(editor: Editor): FootnoteData | null {
+		const offset = editor.posToOffset(editor.getCursor());
+		const inlineFootnotes = this.extractInlineFootnotes(editor.getValue());
+		return inlineFootnotes.find(f => offset >= f.definition.startPos && offset <= f.definition.endPos) || null;
+	}
+
+	convertInlineFootnoteAtCursor(editor: Editor) {
+		const inlineFootnote = this.findInlineFootnoteAtCursor(editor);
+		if (!inlineFootnote) {
+			new Notice('Place the cursor inside an inline footnote (^[...]) to convert it');
+			return;
+		}
+
+		const { batch, numbers } = this.convertInlineFootnotesInContent(editor.getValue(), [inlineFootnote], this.getEditorStartNumber(editor));
+		batch.apply(editor);
+		new Notice(`Inline footnote converted to footnote [${numbers[0]}]`);
+		this.refreshFootnotesView();
+	}
+
+	convertAllInlineFootnotes(editor: Editor) {
+		const inlineFootnotes = this.extractInlineFootnotes(editor.getValue());
+		if (inlineFootnotes.length === 0) {
+			new Notice('No inline footnotes found to convert');
+			return;
+		}
+
+		const { batch, numbers } = this.convertInlineFootnotesInContent(editor.getValue(), inlineFootnotes, this.getEditorStartNumber(editor));
+		batch.apply(editor);
+		new Notice(`${numbers.length} inline footnote(s) converted to reference footnotes`);
+		this.refreshFootnotesView();
+	}
+
+	// Replaces each inline footnote with a reference and appends its definition, numbering in document order
+	private convertInlineFootnotesInContent(content: string, inlineFootnotes: FootnoteData[], startNumber: number): {
+		batch: EditBatch,
+		numbers: string[]
+	} {
+		const sorted = [...inlineFootnotes].sort((a, b) => a.definition.startPos - b.definition.startPos);
+		const numbers: string[] = [];
+		sorted.forEach(() => {
+			numbers.push(this.getNextFootnoteNumber(content, numbers, startNumber).toString());
+		});
+
+		const batch = new EditBatch(content);
+		sorted.forEach((footnote, i) => {
+			batch.replace(footnote.definition.startPos, footnote.definition.endPos, `[^${numbers[i]}]`);
+		});
+		this.insertDefinitions(batch, sorted.map((footnote, i) => ({
+			text: this.formatFootnoteDefinition(numbers[i], footnote.content),
+			anchor: footnote.definition.startPos
+		})));
+
+		return {
+			batch,
+			numbers
+		};
+	}
+
+	convertReferenceFootnoteAtCursorToInline(editor: Editor) {
+		const reference = this.findReferenceAtCursor(editor);
+		if (!reference) {
+			new Notice('Place the cursor on a footnote reference to convert it');
+			return;
+		}
+
+		const footnote = this.extractFootnotes(editor.getValue()).find(f => f.number === reference.number);
+		if (!footnote) {
+			new Notice(`Footnote [${reference.number}] has no definition to inline`);
+			return;
+		}
+		if (footnote.referenceCount !== 1) {
+			new Notice(`Footnote [${footnote.number}] has ${footnote.referenceCount} references. Only single-reference footnotes can be converted to inline.`);
+			return;
+		}
+		if (footnote.content.includes('\n')) {
+			new Notice(`Footnote [${footnote.number}] spans multiple paragraphs and cannot be converted to inline`);
+			return;
+		}
+
+		this.convertReferenceFootnotesInContent(editor.getValue(), [footnote]).apply(editor);
+		new Notice(`Footnote [${footnote.number}] converted to inline footnote`);
+		this.refreshFootnotesView();
+	}
+
+	convertAllReferenceFootnotesToInline(editor: Editor) {
+		const convertible = this.extractFootnotes(editor.getValue()).filter(f =>
+			f.referenceCount === 1 && !f.content.includes('\n')
+		);
+		if (convertible.length === 0) {
+			new Notice('No single-reference footnotes found to convert');
+			return;
+		}
+
+		this.convertReferenceFootnotesInContent(editor.getValue(), convertible).apply(editor);
+		new Notice(`${convertible.length} footnote(s) converted to inline footnotes`);
+		this.refreshFootnotesView();
+	}
+
+	private convertReferenceFootnotesInContent(content: string, footnotes: FootnoteData[]): EditBatch {
+		const batch = new EditBatch(content);
+
+		footnotes.forEach(footnote => {
+			const reference = footnote.references[0];
+			batch.replace(reference.startPos, reference.endPos, `^[${footnote.content}]`);
+			batch.deleteDefinition(footnote.definition);
+		});
+
+		return batch;
+	}
+
+	unwrapFootnoteAtCursor(editor: Editor) {
+		const inlineFootnote = this.findInlineFootnoteAtCursor(editor);
+		if (inlineFootnote) {
+			this.unwrapFootnoteInEditor(editor, inlineFootnote, 0);
+			return;
+		}
+
+		const reference = this.findReferenceAtCursor(editor);
+		if (!reference) {
+			new Notice('Place the cursor on a footnote reference to unwrap it');
+			return;
+		}
+
+		const footnote = this.extractFootnotes(editor.getValue()).find(f => f.number === reference.number);
+		if (!footnote) {
+			new Notice(`Footnote [${reference.number}] has no definition to unwrap`);
+			return;
+		}
+
+		this.unwrapFootnoteInEditor(editor, footnote, footnote.references.findIndex(ref => ref.startPos === reference.startPos));
+	}
+
+	// Panel action: asks which reference to expand when the footnote is cited more than once
+	unwrapFootnote(footnote: FootnoteData) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
+
+		const content = editor.getValue();
+		const current = footnote.isInline ?
+			this.extractInlineFootnotes(content).find(f => f.definition.startPos === footnote.definition.startPos) :
+			this.extractFootnotes(content).find(f => f.number === footnote.number);
+		if (!current || (!current.isInline && current.references.length === 0)) {
+			new Notice(`Footnote [${footnote.number}] has no reference to unwrap into`);
+			this.refreshFootnotesView();
+			return;
+		}
+
+		if (current.references.length > 1) {
+			new UnwrapFootnoteModal(this.app, this, current, content, (referenceIndex) => {
+				this.unwrapFootnoteInEditor(editor, current, referenceIndex);
+			}).open();
+			return;
+		}
+
+		this.unwrapFootnoteInEditor(editor, current, 0);
+	}
+
+	// Replaces one reference with the footnote text; the definition goes once no references remain
+	private unwrapFootnoteInEditor(editor: Editor, footnote: FootnoteData, referenceIndex: number) {
+		const batch = new EditBatch(editor.getValue());
+		const text = footnote.content.split('\n').map(line => line.trim()).filter(line => line !== '').join(' ');
+
+		if (footnote.isInline) {
+			batch.replace(footnote.definition.startPos, footnote.definition.endPos, this.wrapUnwrappedText(batch.content, footnote.definition.startPos, footnote.definition.endPos, text));
+		} else {
+			const reference = footnote.references[referenceIndex];
+			if (!reference) return;
+			batch.replace(reference.startPos, reference.endPos, this.wrapUnwrappedText(batch.content, reference.startPos, reference.endPos, text));
+			if (footnote.references.length === 1) {
+				[footnote.definition, ...(footnote.duplicateDefinitions || [])].forEach(definition => batch.deleteDefinition(definition));
+			}
+		}
+
+		if (!batch.apply(editor)) {
+			new Notice('The note changed while the dialog was open. Please try again.');
+			return;
+		}
+		new Notice(footnote.isInline ? 'Inline footnote unwrapped into text' : `Footnote [${footnote.number}] unwrapped into text`);
+		this.refreshFootnotesView();
+	}
+
+	// Footnote text set off according to the unwrap style, spaced to fit between the neighbouring characters
+	private wrapUnwrappedText(content: string, startPos: number, endPos: number, text: string): string {
+		const before = content.charAt(startPos - 1);
+		const after = content.charAt(endPos);
+		const leadingSpace = before !== '' && !/\s/.test(before) ? ' ' : '';
+		const endsClause = after === '' || /[\s.,;:!?)]/.test(after);
+		const trailingSpace = endsClause ? '' : ' ';
+
+		switch (this.settings.unwrapWrapper) {
+			case 'em-dash':
+				// A closing dash is dropped at the end of a sentence or line
+				return /^[.,;:!?)\n]?$/.test(after) ?
+					`${leadingSpace}— ${text}` :
+					`${leadingSpace}— ${text} —${trailingSpace}`;
+			case 'none':
+				return `${leadingSpace}${text}${trailingSpace}`;
+			default:
+				return `${leadingSpace}(${text})${trailingSpace}`;
+		}
+	}
+
+	convertFootnoteLayout(editor: Editor, layout: EndnoteLayout) {
+		const content = editor.getValue();
+		const batch = this.planFootnoteLayout(content, layout);
+		if (batch === null) {
+			new Notice('No footnote definitions in this note');
+			return;
+		}
+
+		if (batch.applyToString() === content) {
+			new Notice('Footnote definitions are already in this layout');
+			return;
+		}
+
+		batch.apply(editor);
+		new Notice(layout === 'footnotes' ? 'Endnotes converted back to footnotes' :
+			layout === 'section' ? 'Footnotes gathered under a notes heading in each section' :
+			'Footnotes gathered under the notes heading');
+		this.refreshFootnotesView();
+	}
+
+	// Edits that move every definition into the given layout, sorted by number within each block,
+	// or null if the note has no definitions. A definition belongs to the section of its first reference.
+	planFootnoteLayout(content: string, layout: EndnoteLayout): EditBatch | null {
+		const parser = new FootnoteParser(content);
+		const definitions = parser.getDefinitions();
+		if (definitions.length === 0) return null;
+
+		const notesHeading = this.settings.notesHeading.trim();
+		const sectionNotesHeading = this.settings.sectionNotesHeading.trim();
+		const headings = this.extractHeaders(content).filter(h => !parser.isExcluded(parser.getLineStart(h.line)));
+		// H1/H2 headings that start a section; a notes heading is part of the section it closes
+		const sectionHeadings = headings.filter(h =>
+			h.level <= 2 &&
+			![notesHeading, sectionNotesHeading].includes(parser.getLine(h.line).trim())
+		);
+
+		const footnotes = this.extractFootnotes(content);
+		const groups = new Map < number,
+			FootnoteDefinition[] > ();
+		definitions.forEach(definition => {
+			const firstReference = footnotes.find(f => f.number === definition.number)?.references[0];
+			const line = firstReference ? firstReference.line : definition.line;
+			const section = layout === 'section' ? sectionHeadings.filter(h => h.line <= line).length : 0;
+			groups.set(section, [...(groups.get(section) || []), definition]);
+		});
+
+		// Numbered and chapter labels in order, named labels after them in document order
+		const chapterLevel = this.getChapterLevel();
+		const isNamed = (definition: FootnoteDefinition) => this.parseSchemeLabel(definition.number, chapterLevel) === null ? 1 : 0;
+		const formatBlock = (group: FootnoteDefinition[]) => [...group]
+			.sort((a, b) => isNamed(a) - isNamed(b) || this.compareFootnoteLabels(a.number, b.number))
+			.map(definition => definition.fullMatch.replace(/\s+$/, ''))
+			.join('\n');
+
+		// Text that disappears: notes headings left holding only definitions, and every definition
+		const removed = this.getEmptyNotesHeadingRanges(parser, headings, definitions, [notesHeading, sectionNotesHeading]);
+		const movedDefinitions = definitions.filter(d => !removed.some(range => d.startPos >= range.from && d.startPos < range.to));
+		removed.push(...movedDefinitions.map(d => ({ from: d.startPos, to: d.endPos })));
+		const isRemoved = (offset: number) => removed.some(range => offset >= range.from && offset < range.to);
+
+		const batch = new EditBatch(content);
+		const regionCount = layout === 'section' ? sectionHeadings.length + 1 : 1;
+		for (let section = 0; section < regionCount; section++) {
+			const start = section === 0 ? 0 : parser.getLineStart(sectionHeadings[section - 1].line);
+			const end = section < sectionHeadings.length && layout === 'section' ? parser.getLineStart(sectionHeadings[section].line) : content.length;
+
+			// Text removed between paragraphs takes the blank lines after it along, keeping the spacing before it
+			let offset = start;
+			while (offset < end) {
+				if (!isRemoved(offset)) {
+					offset++;
+					continue;
+				}
+				let runStart = offset;
+				while (runStart > start && /\s/.test(content.charAt(runStart - 1))) {
+					runStart--;
+				}
+				let runEnd = offset;
+				while (runEnd < end && (isRemoved(runEnd) || /\s/.test(content.charAt(runEnd)))) {
+					runEnd++;
+				}
+				if (runEnd < end) {
+					batch.delete(runStart === 0 ? 0 : offset, runEnd);
+				}
+				offset = runEnd;
+			}
+
+			// The block goes after the last text that stays, replacing the blank lines that trail it
+			let bodyEnd = end;
+			while (bodyEnd > start && (isRemoved(bodyEnd - 1) || /\s/.test(content.charAt(bodyEnd - 1)))) {
+				bodyEnd--;
+			}
+			const gaps: Array < { from: number, to: number } > = [];
+			for (let offset = bodyEnd; offset < end; offset++) {
+				if (isRemoved(offset)) continue;
+				const last = gaps[gaps.length - 1];
+				if (last && last.to === offset) {
+					last.to++;
+				} else {
+					gaps.push({ from: offset, to: offset + 1 });
+				}
+			}
+
+			const group = groups.get(section);
+			let blockGap: { from: number, to: number } | undefined;
+			if (group) {
+				const heading = layout === 'section' ? sectionNotesHeading + '\n\n' :
+					layout === 'document' ? (this.settings.notesHeadingSeparator ? '---\n\n' : '') + notesHeading + '\n\n' :
+					'';
+				const text = (bodyEnd === 0 ? '' : '\n\n') + heading + formatBlock(group) + (end === content.length ? '\n' : '\n\n');
+				blockGap = gaps[0] && gaps[0].from === bodyEnd ? gaps[0] : undefined;
+				batch.replace(bodyEnd, blockGap ? blockGap.to : bodyEnd, text);
+			} else if (!removed.some(range => range.from >= bodyEnd && range.from < end)) {
+				// Nothing leaves the end of this region, so its spacing stays as written
+				continue;
+			} else if (bodyEnd > 0 && end < content.length && gaps.length > 0) {
+				// The spacing before the removed text now leads into the next heading
+				batch.delete(gaps[0].to, end);
+				continue;
+			} else if (gaps.length > 0) {
+				// Close up the blank lines left around the removed text
+				blockGap = gaps[0];
+				batch.replace(blockGap.from, blockGap.to, bodyEnd === 0 ? '' : '\n');
+			}
+			gaps.filter(gap => gap !== blockGap).forEach(gap => batch.delete(gap.from, gap.to));
+		}
+
+		removed.filter(range => !movedDefinitions.some(d => d.startPos === range.from)).forEach(range => batch.delete(range.from, range.to));
+		movedDefinitions.forEach(definition => batch.deleteDefinition(definition));
+		return batch;
+	}
+
+	// Notes headings whose section holds nothing but definitions, each with a rule that separates it
+	// from the text at the end of the note
+	private getEmptyNotesHeadingRanges(parser: FootnoteParser, headings: HeaderData[], definitions: FootnoteDefinition[], notesHeadings: string[]): Array < { from: number, to: number } > {
+		const ranges: Array < { from: number, to: number } > = [];
+		headings.forEach((heading, i) => {
+			if (!notesHeadings.includes(parser.getLine(heading.line).trim())) return;
+			const end = i + 1 < headings.length ? headings[i + 1].line : parser.lineCount;
+			for (let line = heading.line + 1; line < end; line++) {
+				const isDefinitionLine = definitions.some(d => line >= d.line && line <= parser.getLineNumber(d.endPos));
+				if (!isDefinitionLine && parser.getLine(line).trim() !== '') return;
+			}
+
+			let first = heading.line;
+			let previous = heading.line - 1;
+			while (previous >= 0 && parser.getLine(previous).trim() === '') {
+				previous--;
+			}
+			if (end === parser.lineCount && previous >= 0 && /^(-{3,}|\*{3,}|_{3,})$/.test(parser.getLine(previous).trim())) {
+				first = previous;
+			}
+			ranges.push({
+				from: parser.getLineStart(first),
+				to: end < parser.lineCount ? parser.getLineStart(end) : parser.content.length
+			});
+		});
+		return ranges;
+	}
+
+	// Label of the reference or definition marker under the cursor
+	renameFootnoteAtCursor(editor: Editor) {
+		const offset = editor.posToOffset(editor.getCursor());
+		const reference = this.findReferenceAtCursor(editor);
+		const definition = new FootnoteParser(editor.getValue()).getDefinitions()
+			.find(d => offset >= d.startPos && offset <= d.startPos + `[^${d.number}]`.length);
+		const label = reference?.number ?? definition?.number;
+		if (!label) {
+			new Notice('Place the cursor on a footnote reference or definition label to rename it');
+			return;
+		}
+
+		this.openRenameLabelModal(editor, label);
+	}
+
+	// Panel action
+	renameFootnote(label: string) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
+
+		this.openRenameLabelModal(editor, label);
+	}
+
+	private openRenameLabelModal(editor: Editor, label: string) {
+		new RenameLabelModal(this.app, this, label, editor.getValue(), (newLabel) => {
+			this.renameFootnoteLabel(editor, label, newLabel);
+		}).open();
+	}
+
+	// Reason a label cannot be renamed to newLabel, or null if it can
+	validateFootnoteLabel(content: string, oldLabel: string, newLabel: string): string | null {
+		if (newLabel === '') {
+			return 'Enter a label';
+		}
+		if (!/^[\w-]+$/.test(newLabel)) {
+			return 'Labels may only contain letters, digits, underscores and hyphens';
+		}
+		if (newLabel === oldLabel) {
+			return 'The label is unchanged';
+		}
+
+		const parser = new FootnoteParser(content);
+		if (parser.getDefinitions().some(d => d.number === newLabel)) {
+			return `Footnote [^${newLabel}] already exists`;
+		}
+		if (parser.getReferences().some(r => r.number === newLabel)) {
+			return `[^${newLabel}] is already referenced in this note`;
+		}
+		return null;
+	}
+
+	// Rewrites the definitions and every reference of a label in one edit
+	renameFootnoteLabel(editor: Editor, oldLabel: string, newLabel: string): boolean {
+		const content = editor.getValue();
+		const error = this.validateFootnoteLabel(content, oldLabel, newLabel);
+		if (error) {
+			new Notice(error);
+			return false;
+		}
+
+		const parser = new FootnoteParser(content);
+		const batch = new EditBatch(content);
+		parser.getDefinitions().filter(d => d.number === oldLabel).forEach(definition => {
+			batch.replace(definition.startPos, definition.startPos + `[^${oldLabel}]`.length, `[^${newLabel}]`);
+		});
+		parser.getReferences().filter(r => r.number === oldLabel).forEach(reference => {
+			batch.replace(reference.startPos, reference.endPos, `[^${newLabel}]`);
+		});
+
+		if (!batch.apply(editor)) {
+			new Notice('The note changed while the dialog was open. Please try again.');
+			return false;
+		}
+		new Notice(`Footnote [${oldLabel}] renamed to [${newLabel}]`);
+		this.refreshFootnotesView();
+		return true;
+	}
+
+	// Gives every reference after the first its own copy of the definition so the notes can diverge.
+	// Returns the labels of the new copies, or null if nothing was changed.
+	splitFootnote(footnote: FootnoteData): string[] | null {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return null;
+		}
+
+		const content = editor.getValue();
+		const current = this.extractFootnotes(content).find(f => f.number === footnote.number);
+		if (!current || current.isInline || current.references.length < 2) {
+			new Notice(`Footnote [${footnote.number}] has only one reference`);
+			this.refreshFootnotesView();
+			return null;
+		}
+
+		const chapterLevel = this.getChapterLevel();
+		const isNumeric = /^\d+$/.test(current.number);
+		const isNumbered = this.parseSchemeLabel(current.number, chapterLevel) !== null;
+		const parser = new FootnoteParser(content);
+		const takenLabels = [...parser.getDefinitions().map(d => d.number), ...parser.getReferences().map(r => r.number)];
+		const copies = current.references.slice(1);
+		const copyLabels: string[] = [];
+		const relabels = new Map < string, string > ();
+		const startNumber = this.getEditorStartNumber(editor);
+
+		if (isNumbered && this.settings.insertInSequence) {
+			this.planSequentialSplit(parser, current, chapterLevel, startNumber, copyLabels, relabels);
+		} else {
+			copies.forEach(reference => {
+				let label: string;
+				if (chapterLevel !== null && isNumbered) {
+					label = this.getNextChapterFootnoteLabel(content, reference.startPos, copyLabels);
+				} else if (isNumeric) {
+					label = this.getNextFootnoteNumber(content, copyLabels, startNumber).toString();
+				} else {
+					let suffix = 2;
+					do {
+						label = `${current.number}-${suffix++}`;
+					} while (takenLabels.includes(label) || copyLabels.includes(label));
+				}
+				copyLabels.push(label);
+			});
+		}
+
+		const batch = new EditBatch(content);
+		parser.getReferences().forEach(reference => {
+			const copyIndex = copies.findIndex(copy => copy.startPos === reference.startPos);
+			const label = copyIndex !== -1 ? copyLabels[copyIndex] : relabels.get(reference.number);
+			if (label) {
+				batch.replace(reference.startPos, reference.endPos, `[^${label}]`);
+			}
+		});
+		// Copies cite other footnotes by their shifted labels
+		const relabel = (label: string) => relabels.get(label) ?? label;
+		const copiedText = this.relabelDefinitionText(current.definition, parser.getReferences(), relabel)
+			.substring(`[^${relabel(current.number)}]`.length);
+		let copyDefinitions = copies.map((reference, i) => ({
+			text: `[^${copyLabels[i]}]` + copiedText,
+			number: copyLabels[i],
+			anchor: reference.startPos
+		}));
+		const collectsDefinitions = this.settings.definitionPlacement === 'end-of-document' || this.settings.definitionPlacement === 'notes-heading';
+		if (isNumbered && this.settings.insertInSequence && collectsDefinitions) {
+			// Shifting keeps existing definitions in order, so only the copies need their sorted place
+			copyDefinitions = this.slotDefinitionsInBatch(batch, parser.getDefinitions().map(d => ({
+				startPos: d.startPos,
+				endPos: d.endPos,
+				number: relabel(d.number)
+			})), copyDefinitions, chapterLevel);
+		}
+		parser.getDefinitions().forEach(definition => {
+			const label = relabels.get(definition.number);
+			if (label) {
+				batch.replace(definition.startPos, definition.startPos + `[^${definition.number}]`.length, `[^${label}]`);
+			}
+		});
+		this.insertDefinitions(batch, copyDefinitions);
+
+		if (!batch.apply(editor)) return null;
+
+		new Notice(`Footnote [${current.number}] split into ${current.references.length} footnotes`);
+		this.refreshFootnotesView();
+		return copyLabels;
+	}
+
+	// In sequential mode each copy takes the number after the footnotes preceding its reference, and only
+	// footnotes of its sequence numbered from there on move up. Fills `copyLabels` and `relabels`.
+	private planSequentialSplit(
+		parser: FootnoteParser,
+		footnote: FootnoteData,
+		chapterLevel: number | null,
+		startNumber: number,
+		copyLabels: string[],
+		relabels: Map < string, string >
+	) {
+		const headings = chapterLevel !== null ? this.getChapterHeadings(parser.content, chapterLevel) : [];
+		const copies = footnote.references.slice(1);
+		const references = parser.getReferences().filter(ref => !copies.some(copy => copy.startPos === ref.startPos));
+
+		// Where each numbered label ends up as copies are slotted in
+		const positions = new Map < string, { chapter: number, number: number } > ();
+		[...references.map(r => r.number), ...parser.getDefinitions().map(d => d.number)].forEach(label => {
+			const position = this.parseSchemeLabel(label, chapterLevel);
+			if (position && !positions.has(label)) {
+				positions.set(label, position);
+			}
+		});
+
+		const copyPositions: Array < { chapter: number, number: number } > = [];
+		copies.forEach(copy => {
+			const chapter = chapterLevel !== null ? this.getChapterOf(headings, parser.getLineNumber(copy.startPos)) : 0;
+			const preceding = [
+				...references.filter(ref => ref.endPos <= copy.startPos).map(ref => positions.get(ref.number)),
+				...copyPositions
+			]
+				.filter((position): position is { chapter: number, number: number } => position !== undefined && position.chapter === chapter)
+				.map(position => position.number);
+			const number = preceding.length > 0 ? Math.max(...preceding) + 1 : chapter === 0 ? startNumber : 1;
+
+			// Later footnotes only move when the number is already taken
+			const sequence = [...positions.values(), ...copyPositions].filter(position => position.chapter === chapter);
+			if (sequence.some(position => position.number === number)) {
+				sequence.filter(position => position.number >= number).forEach(position => position.number++);
+			}
+			copyPositions.push({ chapter, number });
+		});
+
+		copyPositions.forEach(position => copyLabels.push(this.formatChapterLabel(position.chapter, position.number)));
+		positions.forEach((position, label) => {
+			const newLabel = this.formatChapterLabel(position.chapter, position.number);
+			if (newLabel !== label) {
+				relabels.set(label, newLabel);
+			}
+		});
+	}
+
+	jumpToFootnotesSection(editor ? : Editor) {
+		this.debug('jumpToFootnotesSection called, editor provided:', !!editor);
+
+		let activeEditor = editor;
+		let targetFile: TFile | null = null;
+
+		if (!activeEditor) {
+			this.debug('No editor provided, getting file from footnotes view');
+
+			const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+			if (footnoteLeaves.length > 0) {
+				const footnoteView = footnoteLeaves[0].view as FootnotesView;
+				targetFile = (footnoteView as any).currentFile;
+				this.debug('Got target file from footnotes view:', !!targetFile);
+			}
+
+			if (targetFile) {
+				const leaves = this.app.workspace.getLeavesOfType('markdown');
+				for (const leaf of leaves) {
+					const view = leaf.view as MarkdownView;
+					if (view.file === targetFile) {
+						activeEditor = view.editor;
+						this.debug('Found editor for target file');
+						break;
+					}
+				}
+			}
+
+			if (!activeEditor) {
+				this.debug('Fallback: searching for any active view');
+				let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+				if (!activeView) {
+					const leaves = this.app.workspace.getLeavesOfType('markdown');
+					if (leaves.length > 0) {
+						activeView = leaves[0].view as MarkdownView;
+					}
+				}
+
+				if (!activeView) {
+					new Notice('No markdown editor found. Please click in a markdown document first.');
+					return;
+				}
+
+				activeEditor = activeView.editor;
+			}
+		}
+
+		if (!activeEditor || typeof activeEditor.getCursor !== 'function') {
+			this.debug('Editor is invalid or missing getCursor method');
+			new Notice('Unable to access editor');
+			return;
+		}
+
+		try {
+			this.lastEditPosition = activeEditor.getCursor();
+			this.debug('Stored last edit position:', this.lastEditPosition);
+
+			const content = activeEditor.getValue();
+			const lines = content.split('\n');
+
+			this.debug('Document has', lines.length, 'lines, content length:', content.length);
+			this.debug('Searching for footnote definitions...');
+
+			let foundFootnoteAt = -1;
+			for (let i = 0; i < lines.length; i++) {
+				const line = lines[i];
+
+				if (line.match(/^\s*\[\^[\w-]+\]:/)) {
+					this.debug(`Found footnote definition at line ${i + 1}:`, line.trim().substring(0, 100));
+					if (foundFootnoteAt === -1) {
+						foundFootnoteAt = i;
+					}
+				}
+			}
+
+			this.debug(`Total footnote definitions found: ${foundFootnoteAt >= 0 ? 'at least 1' : 'none'}`);
+
+			if (foundFootnoteAt >= 0) {
+				this.debug('Jumping to first footnote at line', foundFootnoteAt + 1);
+				activeEditor.setCursor({
+					line: foundFootnoteAt,
+					ch: 0
+				});
+				activeEditor.scrollIntoView({
+					from: {
+						line: foundFootnoteAt,
+						ch: 0
+					},
+					to: {
+						line: foundFootnoteAt,
+						ch: 0
+					}
+				}, true);
+				new Notice('Jumped to footnotes section. Use return button to go back.');
+				return;
+			} else {
+				for (let i = 0; i < lines.length; i++) {
+					const line = lines[i];
+					if (line.match(/^#{1,6}\s+(Notes?|Footnotes?)\s*$/i)) {
+						this.debug(`Found Notes/Footnotes heading at line ${i + 1}:`, line);
+						activeEditor.setCursor({
+							line: i,
+							ch: 0
+						});
+						activeEditor.scrollIntoView({
+							from: {
+								line: i,
+								ch: 0
+							},
+							to: {
+								line: i,
+								ch: 0
+							}
+						}, true);
+						new Notice('Jumped to Notes section. Use return button to go back.');
+						return;
+					}
+				}
+
+				new Notice('No footnote definitions or Notes section found');
+			}
+		} catch (error) {
+			this.debug('Error in jumpToFootnotesSection:', error);
+			new Notice('Error accessing editor: ' + error.message);
+		}
+	}
+
+	returnToLastEditPosition(editor ? : Editor) {
+		this.debug('returnToLastEditPosition called, editor provided:', !!editor);
+
+		let activeEditor = editor;
+		let targetFile: TFile | null = null;
+
+		if (!activeEditor) {
+			this.debug('No editor provided, getting file from footnotes view');
+
+			const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+			if (footnoteLeaves.length > 0) {
+				const footnoteView = footnoteLeaves[0].view as FootnotesView;
+				targetFile = (footnoteView as any).currentFile;
+				this.debug('Got target file from footnotes view:', !!targetFile);
+			}
+
+			if (targetFile) {
+				const leaves = this.app.workspace.getLeavesOfType('markdown');
+				for (const leaf of leaves) {
+					const view = leaf.view as MarkdownView;
+					if (view.file === targetFile) {
+						activeEditor = view.editor;
+						this.debug('Found editor for target file');
+						break;
+					}
+				}
+			}
+
+			if (!activeEditor) {
+				this.debug('Fallback: searching for any active view');
+				let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+
+				if (!activeView) {
+					const leaves = this.app.workspace.getLeavesOfType('markdown');
+					if (leaves.length > 0) {
+						activeView = leaves[0].view as MarkdownView;
+					}
+				}
+
+				if (!activeView) {
+					new Notice('No markdown editor found. Please click in a markdown document first.');
+					return;
+				}
+
+				activeEditor = activeView.editor;
+			}
+		}
+
+		if (!activeEditor || typeof activeEditor.setCursor !== 'function') {
+			this.debug('Editor is invalid or missing setCursor method');
+			new Notice('Unable to access editor');
+			return;
+		}
+
+		try {
+			if (this.lastEditPosition) {
+				this.debug('Attempting to return to stored position:', this.lastEditPosition);
+				activeEditor.setCursor(this.lastEditPosition);
+				activeEditor.scrollIntoView({
+					from: this.lastEditPosition,
+					to: this.lastEditPosition
+				}, true);
+
+				activeEditor.focus();
+
+				new Notice('Returned to last edit position');
+				this.debug('Successfully returned to position:', this.lastEditPosition);
+			} else {
+				this.debug('No lastEditPosition stored, finding first editable line');
+				const firstEditableLine = this.findFirstEditableLine(activeEditor);
+				const defaultPosition = {
+					line: firstEditableLine,
+					ch: 0
+				};
+
+				activeEditor.setCursor(defaultPosition);
+				activeEditor.scrollIntoView({
+					from: defaultPosition,
+					to: defaultPosition
+				}, true);
+				activeEditor.focus();
+
+				new Notice('Jumped to start of content');
+				this.debug('Moved to first editable line:', firstEditableLine);
+			}
+		} catch (error) {
+			this.debug('Error in returnToLastEditPosition:', error);
+			new Notice('Error accessing editor: ' + error.message);
+		}
+	}
+
+	private findFirstEditableLine(editor: Editor): number {
+		const content = editor.getValue();
+		const lines = content.split('\n');
+
+		this.debug('Finding first editable line in document with', lines.length, 'lines');
+
+		if (lines[0] && lines[0].trim() === '---') {
+			this.debug('Document starts with frontmatter, looking for end');
+
+			for (let i = 1; i < lines.length; i++) {
+				if (lines[i].trim() === '---') {
+					this.debug('Found end of frontmatter at line', i);
+
+					for (let j = i + 1; j < lines.length; j++) {
+						if (lines[j].trim() !== '') {
+							this.debug('First content line after frontmatter:', j);
+							return j;
+						}
+					}
+
+					return i + 1;
+				}
+			}
+
+			this.debug('Frontmatter missing closing ---, defaulting to line 1');
+			return 1;
+		}
+
+		for (let i = 0; i < lines.length; i++) {
+			if (lines[i].trim() !== '') {
+				this.debug('First non-empty line found at:', i);
+				return i;
+			}
+		}
+
+		this.debug('Document appears empty, defaulting to line 0');
+		return 0;
+	}
+
+	public setSkipRefreshPeriod(milliseconds: number = 1000) {
+		this.skipNextRefresh = true;
+		this.skipRefreshUntil = Date.now() + milliseconds;
+		this.debug('Set skip refresh period until:', this.skipRefreshUntil);
+
+		setTimeout(() => {
+			this.skipNextRefresh = false;
+			this.debug('Cleared skipNextRefresh flag');
+		}, milliseconds);
+	}
+
+	debounceRefresh() {
+		this.debug('debounceRefresh called, skipNextRefresh:', this.skipNextRefresh, 'skipRefreshUntil:', this.skipRefreshUntil, 'isNavigating:', this.isNavigating, 'now:', Date.now());
+
+		if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
+			this.debug('Skipping refresh due to skip flags');
+			return;
+		}
+
+		if (this.refreshTimeout) {
+			window.clearTimeout(this.refreshTimeout);
+		}
+		this.refreshTimeout = window.setTimeout(() => {
+			if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
+				this.debug('Skipping delayed refresh due to skip flags');
+				return;
+			}
+			this.debug('Executing delayed refresh');
+			this.refreshFootnotesView();
+		}, 500);
+	}
 
-	jumpToFootnote(footnoteNumber: string) {
-	    this.debug('FootnotesView.jumpToFootnote called for:', footnoteNumber);
-    
-	    // Find all footnote number elements
-	    const footnoteElements = this.containerEl.querySelectorAll('.footnote-number');
-	    this.debug('Found footnote elements:', footnoteElements.length);
-    
-	    let targetElement: Element | null = null;
-    
-	    // Search for the matching footnote number
-	    footnoteElements.forEach((element) => {
-	        const numberText = element.textContent?.trim();
-	        this.debug('Checking footnote number element:', numberText);
-        
-	        if (numberText === `[${footnoteNumber}]`) {
-	            this.debug('Found matching footnote, expanding section and scrolling');
-	            targetElement = element;
-	            return;
-	        }
-	    });
-    
-	    if (!targetElement) {
-	        this.debug('Footnote not found:', footnoteNumber);
-	        return;
-	    }
-    
-	    // Find the footnote item container
-	    const footnoteItem = targetElement.closest('.footnote-item');
-	    if (!footnoteItem) {
-	        this.debug('Could not find footnote item container');
-	        return;
-	    }
-    
-	    // Check if the footnote is in a collapsed section and expand it
-	    let currentElement = footnoteItem.parentElement;
-	    while (currentElement && currentElement !== this.containerEl) {
-	        if (currentElement.classList.contains('footnote-group-content')) {
-	            if (currentElement.style.display === 'none') {
-	                this.debug('Expanding section containing footnote');
-	                currentElement.style.display = 'block';
-                
-	                // Find and update the collapse icon
-	                const headerSection = currentElement.parentElement?.querySelector('.footnote-header');
-	                if (headerSection) {
-	                    const collapseIcon = headerSection.querySelector('.footnote-collapse-icon');
-	                    if (collapseIcon) {
-	                        // Update the icon to show expanded state
-	                        collapseIcon.innerHTML = `<svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M6 9l6 6 6-6"/></svg>`;
-	                    }
-	                }
-	            }
-	        }
-	        currentElement = currentElement.parentElement;
-	    }
-    
-	    // Get the scrollable container (the main footnotes panel container)
-	    const scrollContainer = this.containerEl.children[1]; // This should be the main content container
-    
-	    if (!scrollContainer) {
-	        this.debug('Could not find scroll container');
-	        return;
-	    }
-    
-	    // Calculate the scroll position
-	    const containerRect = scrollContainer.getBoundingClientRect();
-	    const footnoteRect = footnoteItem.getBoundingClientRect();
-    
-	    // Calculate the target scroll position
-	    // We need to account for the sticky header height
-	    const stickyHeader = this.containerEl.querySelector('.footnotes-header');
-	    const headerHeight = stickyHeader ? stickyHeader.getBoundingClientRect().height : 80;
-    
-	    // We want the footnote to appear below the sticky header, with some padding
-	    const currentScrollTop = scrollContainer.scrollTop;
-	    const relativeTop = footnoteRect.top - containerRect.top;
-	    const targetScrollTop = currentScrollTop + relativeTop - headerHeight - 20; // header height + 20px padding
-    
-	    this.debug('Scrolling container. Current scroll:', currentScrollTop, 'Target scroll:', targetScrollTop);
-    
-	    // Apply highlighting to the footnote
-	    footnoteItem.classList.add('footnote-item-hover');
-    
-	    // Perform the scroll with smooth behavior
-	    scrollContainer.scrollTo({
-	        top: Math.max(0, targetScrollTop), // Ensure we don't scroll to negative position
-	        behavior: 'smooth'
-	    });
-    
-	    this.debug('Highlighting applied, scroll initiated');
-    
-	    // Remove highlighting after a short delay
-	    setTimeout(() => {
-	        footnoteItem.classList.remove('footnote-item-hover');
-	    }, 2000);
-	}
-}
+	async activateView() {
+		const {
+			workspace
+		} = this.app;
 
-export default class FootnotesManagerPlugin extends Plugin {
-	settings: FootnotesManagerSettings;
-	private refreshTimeout: number | null = null;
-	public skipNextRefresh: boolean = false;
-	private allHeaders: HeaderData[] = [];
-	private lastEditPosition: EditorPosition | null = null;
-	public skipRefreshUntil: number = 0;
-	public isNavigating: boolean = false;
-	private cursorCheckTimeout: number | null = null;
-	private lastCheckedFootnote: string | null = null;
-	private cursorCheckInProgress: boolean = false;
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
 
-	private debug(message: string, ...args: any[]) {
-		if (this.settings.debugMode) {
-			console.log(`[Footnotes Manager] ${message}`, ...args);
+		if (leaves.length > 0) {
+			leaf = leaves[0];
+			workspace.revealLeaf(leaf);
+		} else {
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({
+					type: FOOTNOTES_VIEW_TYPE,
+					active: true
+				});
+			}
 		}
+
+		this.refreshFootnotesView();
 	}
 
-	async onload() {
-		await this.loadSettings();
+	async activateAuditView() {
+		const {
+			workspace
+		} = this.app;
 
-		this.registerView(
-			FOOTNOTES_VIEW_TYPE,
-			(leaf) => new FootnotesView(leaf, this)
-		);
+		const leaves = workspace.getLeavesOfType(FOOTNOTES_AUDIT_VIEW_TYPE);
+		if (leaves.length > 0) {
+			workspace.revealLeaf(leaves[0]);
+			await (leaves[0].view as FootnotesAuditView).scanVault();
+			return;
+		}
 
-		this.addRibbonIcon('hash', 'Toggle Footnotes Panel', () => {
-			this.activateView();
+		const leaf = workspace.getLeaf(true);
+		await leaf.setViewState({
+			type: FOOTNOTES_AUDIT_VIEW_TYPE,
+			active: true
 		});
+		workspace.revealLeaf(leaf);
+	}
 
-		this.addCommand({
-			id: 'toggle-footnotes-panel',
-			name: 'Toggle Footnotes Panel',
-			callback: () => {
-				this.activateView();
+	// Opens a file (reusing an existing tab if it is already open) and returns its editor
+	async openFileInEditor(file: TFile): Promise < Editor | null > {
+		let targetLeaf: WorkspaceLeaf | null = null;
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			if ((leaf.view as MarkdownView).file === file) {
+				targetLeaf = leaf;
 			}
 		});
 
-		this.addCommand({
-			id: 'insert-footnote',
-			name: 'Insert footnote',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.insertFootnote(editor);
-			}
+		if (!targetLeaf) {
+			targetLeaf = this.app.workspace.getLeaf(false);
+			await targetLeaf.openFile(file);
+		}
+
+		this.app.workspace.setActiveLeaf(targetLeaf, {
+			focus: true
 		});
+		const view = (targetLeaf as WorkspaceLeaf).view;
+		return view instanceof MarkdownView ? view.editor : null;
+	}
 
-		this.addCommand({
-			id: 'jump-to-footnotes',
-			name: 'Jump to footnotes section',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.jumpToFootnotesSection(editor);
+	refreshFootnotesView() {
+		if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
+			this.debug('Skipping footnotes view refresh due to skip flags, skipNextRefresh:', this.skipNextRefresh, 'now:', Date.now(), 'skipUntil:', this.skipRefreshUntil, 'isNavigating:', this.isNavigating);
+			return;
+		}
+
+		this.debug('Proceeding with footnotes view refresh');
+		const leaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+		leaves.forEach(leaf => {
+			if (leaf.view instanceof FootnotesView) {
+				(leaf.view as any).skipCheckTimestamp = Date.now();
+				(leaf.view as any).lastRefreshCheck = Date.now();
+				leaf.view.refresh();
 			}
 		});
+	}
 
-		this.addCommand({
-			id: 'return-to-edit-position',
-			name: 'Return to last edit position',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.returnToLastEditPosition(editor);
+	// NEW: Enhanced extractFootnotes method that separates referenced and unreferenced footnotes
+	extractFootnotesWithUnreferenced(content: string): {
+		referencedFootnotes: FootnoteData[],
+		unreferencedFootnotes: FootnoteData[]
+	} {
+		const footnoteDefinitions = new Map < string,
+			FootnoteDefinition > ();
+		const footnoteReferences = new Map < string,
+			FootnoteReference[] > ();
+
+		// Tokenize once so code blocks, inline code, math, comments and frontmatter are skipped
+		const parser = new FootnoteParser(content);
+
+		// Extract footnote definitions first. The first definition of a label is the one
+		// Markdown renders; later ones are kept as duplicates instead of overwriting it.
+		const duplicateDefinitions = new Map < string,
+			FootnoteDefinition[] > ();
+		parser.getDefinitions().forEach(definition => {
+			if (!footnoteDefinitions.has(definition.number)) {
+				footnoteDefinitions.set(definition.number, definition);
+				return;
+			}
+			if (!duplicateDefinitions.has(definition.number)) {
+				duplicateDefinitions.set(definition.number, []);
 			}
+			duplicateDefinitions.get(definition.number) !.push(definition);
 		});
 
-		this.addSettingTab(new FootnotesManagerSettingTab(this.app, this));
+		// Extract footnote references
+		parser.getReferences().forEach(reference => {
+			if (!footnoteReferences.has(reference.number)) {
+				footnoteReferences.set(reference.number, []);
+			}
+			footnoteReferences.get(reference.number) !.push(reference);
+		});
 
-		this.registerEvent(
-			this.app.workspace.on('active-leaf-change', () => {
-				if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
-					this.debug('Skipping refresh on active-leaf-change due to skip flags, skipNextRefresh:', this.skipNextRefresh, 'isNavigating:', this.isNavigating);
-					return;
-				}
-				this.refreshFootnotesView();
-			})
-		);
+		// Separate referenced and unreferenced footnotes
+		const referencedFootnotes: FootnoteData[] = [];
+		const unreferencedFootnotes: FootnoteData[] = [];
 
-		this.registerEvent(
-			this.app.workspace.on('editor-change', (editor: Editor) => {
-				if (!this.skipNextRefresh) {
-					this.debounceRefresh();
-				}
-			})
-		);
+		footnoteDefinitions.forEach((definition, number) => {
+			const references = footnoteReferences.get(number) || [];
+			const footnote: FootnoteData = {
+				number,
+				content: definition.content,
+				definition,
+				references,
+				referenceCount: references.length,
+				isUnreferenced: references.length === 0
+			};
 
-		this.registerEvent(
-			this.app.workspace.on('editor-change', (editor: Editor) => {
-				if (!this.skipNextRefresh) {
-					this.lastEditPosition = editor.getCursor();
-				}
-			})
-		);
+			if (duplicateDefinitions.has(number)) {
+				footnote.duplicateDefinitions = duplicateDefinitions.get(number);
+			}
 
-		if (this.settings.openOnStart) {
-			this.app.workspace.onLayoutReady(() => {
-				this.activateView();
-			});
-		}
-		this.registerEvent(
-		    this.app.workspace.on('active-leaf-change', () => {
-		        this.setupCursorListener();
-		    })
-		);
+			if (references.length === 0) {
+				unreferencedFootnotes.push(footnote);
+			} else {
+				referencedFootnotes.push(footnote);
+			}
+		});
 
-		// Also call it initially
-		this.app.workspace.onLayoutReady(() => {
-		    this.setupCursorListener();
-		});	
+		this.debug('Extracted footnotes:', {
+			referenced: referencedFootnotes.length,
+			unreferenced: unreferencedFootnotes.length
+		});
+
+		return {
+			referencedFootnotes,
+			unreferencedFootnotes
+		};
 	}
 
-	insertFootnote(editor: Editor) {
-		const content = editor.getValue();
+	// Builds definition text, indenting continuation lines so multi-paragraph content stays attached
+	formatFootnoteDefinition(number: string, content: string): string {
+		const [firstLine, ...continuationLines] = content.split('\n');
+		const indented = continuationLines.map(line => line.trim() === '' ? '' : `    ${line}`);
+		return [`[^${number}]: ${firstLine}`, ...indented].join('\n');
+	}
+
+	// Keep the original method for backward compatibility
+	extractFootnotes(content: string): FootnoteData[] {
 		const {
-			referencedFootnotes
+			referencedFootnotes,
+			unreferencedFootnotes
 		} = this.extractFootnotesWithUnreferenced(content);
+		return [...referencedFootnotes, ...unreferencedFootnotes];
+	}
 
-		const existingNumbers = referencedFootnotes.map(f => parseInt(f.number)).filter(n => !isNaN(n)).sort((a, b) => a - b);
-		let nextNumber = 1;
-		for (const num of existingNumbers) {
-			if (num === nextNumber) {
-				nextNumber++;
-			} else {
-				break;
-			}
-		}
+	// Inline footnotes are labelled `inline:N` by document order; colons never occur in
+	// regular labels, so these cannot collide with `[^x]` footnotes
+	extractInlineFootnotes(content: string): FootnoteData[] {
+		return new FootnoteParser(content).getInlineFootnotes().map((inline, index) => {
+			const number = `inline:${index + 1}`;
+			const span = {
+				number,
+				line: inline.line,
+				startPos: inline.startPos,
+				endPos: inline.endPos,
+				fullMatch: inline.fullMatch
+			};
+			return {
+				number,
+				content: inline.content,
+				definition: {
+					...span,
+					content: inline.content
+				},
+				references: [span],
+				referenceCount: 1,
+				isUnreferenced: false,
+				isInline: true
+			};
+		});
+	}
 
-		const cursor = editor.getCursor();
-		const footnoteRef = `[^${nextNumber}]`;
-		editor.replaceRange(footnoteRef, cursor);
+	// NEW: Method to find orphaned references (references without definitions)
+	findOrphanedReferences(content: string): OrphanedReference[] {
+		const parser = new FootnoteParser(content);
+		const footnoteDefinitions = new Set < string > ();
+		const orphanedReferences: OrphanedReference[] = [];
 
-		const lines = content.split('\n');
-		let insertPos = lines.length;
+		// First pass: collect all footnote definition numbers
+		parser.getDefinitions().forEach(definition => {
+			footnoteDefinitions.add(definition.number);
+		});
 
-		let footnotesStartLine = -1;
-		for (let i = lines.length - 1; i >= 0; i--) {
-			if (lines[i].match(/^\[\^[\w-]+\]:/)) {
-				footnotesStartLine = i;
-				break;
+		// Second pass: find references without definitions
+		parser.getReferences().forEach(reference => {
+			if (!footnoteDefinitions.has(reference.number)) {
+				orphanedReferences.push({
+					number: reference.number,
+					line: reference.line,
+					startPos: reference.startPos,
+					endPos: reference.endPos,
+					fullMatch: reference.fullMatch
+				});
 			}
-		}
+		});
 
-		if (footnotesStartLine === -1) {
-			if (lines[lines.length - 1].trim() !== '') {
-				editor.setValue(content + '\n\n');
-			} else {
-				editor.setValue(content + '\n');
-			}
-			insertPos = editor.lineCount();
-		} else {
-			insertPos = footnotesStartLine + 1;
-			for (let i = footnotesStartLine + 1; i < lines.length; i++) {
-				if (lines[i].match(/^\[\^[\w-]+\]:/) || lines[i].trim() === '') {
-					if (lines[i].match(/^\[\^[\w-]+\]:/)) {
-						insertPos = i + 1;
-					}
-				} else if (lines[i].trim() !== '') {
-					break;
-				}
-			}
-		}
+		return orphanedReferences;
+	}
 
-		const footnoteDefinition = `[^${nextNumber}]: `;
-		editor.replaceRange('\n' + footnoteDefinition, {
-			line: insertPos,
-			ch: 0
-		});
+	extractHeaders(content: string): HeaderData[] {
+		const lines = content.split('\n');
+		const headers: HeaderData[] = [];
+		const headerRegex = /^(#{1,6})\s+(.+)$/;
 
-		editor.setCursor({
-			line: insertPos + 1,
-			ch: footnoteDefinition.length
+		lines.forEach((line: string, lineIndex: number) => {
+			const match = headerRegex.exec(line.trim());
+			if (match) {
+				headers.push({
+					text: match[2].trim(),
+					level: match[1].length,
+					line: lineIndex
+				});
+			}
 		});
 
-		this.refreshFootnotesView();
-		new Notice(`Footnote ${nextNumber} inserted`);
+		return headers;
 	}
 
-	jumpToFootnotesSection(editor ? : Editor) {
-		this.debug('jumpToFootnotesSection called, editor provided:', !!editor);
-
-		let activeEditor = editor;
-		let targetFile: TFile | null = null;
+	groupFootnotesByHeaders(footnotes: FootnoteData[], headers: HeaderData[], orphanedReferences: OrphanedReference[] = []): FootnoteGroup[] {
+		this.allHeaders = headers;
 
-		if (!activeEditor) {
-			this.debug('No editor provided, getting file from footnotes view');
+		const groups: FootnoteGroup[] = [];
+		const sortedHeaders = [...headers].sort((a, b) => a.line - b.line);
 
-			const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
-			if (footnoteLeaves.length > 0) {
-				const footnoteView = footnoteLeaves[0].view as FootnotesView;
-				targetFile = (footnoteView as any).currentFile;
-				this.debug('Got target file from footnotes view:', !!targetFile);
-			}
+		// Separate referenced and unreferenced footnotes
+		const referencedFootnotes = footnotes.filter(f => f.references.length > 0);
+		const unreferencedFootnotes = footnotes.filter(f => f.references.length === 0);
 
-			if (targetFile) {
-				const leaves = this.app.workspace.getLeavesOfType('markdown');
-				for (const leaf of leaves) {
-					const view = leaf.view as MarkdownView;
-					if (view.file === targetFile) {
-						activeEditor = view.editor;
-						this.debug('Found editor for target file');
-						break;
-					}
+		const findNearestHeader = (line: number): HeaderData | null => {
+			for (let i = sortedHeaders.length - 1; i >= 0; i--) {
+				if (sortedHeaders[i].line < line) {
+					return sortedHeaders[i];
 				}
 			}
+			return null;
+		};
 
-			if (!activeEditor) {
-				this.debug('Fallback: searching for any active view');
-				let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		// Process referenced footnotes: each one is listed under every heading that contains one of its references
+		referencedFootnotes.forEach(footnote => {
+			const referenceIndicesBySection = new Map < HeaderData | null,
+				number[] > ();
+			footnote.references.forEach((ref, index) => {
+				const nearestHeader = findNearestHeader(ref.line);
+				const sectionIndices = referenceIndicesBySection.get(nearestHeader) || [];
+				sectionIndices.push(index);
+				referenceIndicesBySection.set(nearestHeader, sectionIndices);
+			});
 
-				if (!activeView) {
-					const leaves = this.app.workspace.getLeavesOfType('markdown');
-					if (leaves.length > 0) {
-						activeView = leaves[0].view as MarkdownView;
-					}
-				}
+			const appearanceCount = referenceIndicesBySection.size;
 
-				if (!activeView) {
-					new Notice('No markdown editor found. Please click in a markdown document first.');
-					return;
+			referenceIndicesBySection.forEach((referenceIndices, nearestHeader) => {
+				let group = groups.find(g =>
+					(g.header === null && nearestHeader === null) ||
+					(g.header !== null && nearestHeader !== null && g.header.line === nearestHeader.line)
+				);
+
+				if (!group) {
+					group = {
+						header: nearestHeader,
+						footnotes: []
+					};
+					groups.push(group);
 				}
 
-				activeEditor = activeView.editor;
-			}
+				group.footnotes.push(appearanceCount > 1 ? {
+					...footnote,
+					isMultiSection: true,
+					appearanceCount,
+					sectionReferenceIndices: referenceIndices
+				} : footnote);
+			});
+		});
+
+		// Add unreferenced footnotes to a special "Unreferenced" group
+		if (unreferencedFootnotes.length > 0) {
+			const unreferencedGroup: FootnoteGroup = {
+				header: {
+					text: "Unreferenced Footnotes",
+					level: 1, // Make it a top-level heading
+					line: -1 // Special line number to indicate it's virtual
+				},
+				footnotes: unreferencedFootnotes,
+				isUnreferencedGroup: true
+			};
+			groups.push(unreferencedGroup);
 		}
 
-		if (!activeEditor || typeof activeEditor.getCursor !== 'function') {
-			this.debug('Editor is invalid or missing getCursor method');
-			new Notice('Unable to access editor');
-			return;
+		// Add references without definitions to a parallel "Missing Definitions" group
+		if (orphanedReferences.length > 0) {
+			groups.push({
+				header: {
+					text: "Missing Definitions",
+					level: 1,
+					line: -1
+				},
+				footnotes: [],
+				isMissingDefinitionsGroup: true,
+				orphanedReferences
+			});
 		}
 
-		try {
-			this.lastEditPosition = activeEditor.getCursor();
-			this.debug('Stored last edit position:', this.lastEditPosition);
+		// Sort footnotes within each group by number
+		groups.forEach(group => {
+			group.footnotes.sort((a, b) => this.compareFootnoteLabels(a.number, b.number) || a.number.localeCompare(b.number));
+		});
 
-			const content = activeEditor.getValue();
-			const lines = content.split('\n');
+		// Sort groups by header line (unreferenced group goes last)
+		groups.sort((a, b) => {
+			if (a.header === null && b.header === null) return 0;
+			if (a.header === null) return -1;
+			if (b.header === null) return 1;
 
-			this.debug('Document has', lines.length, 'lines, content length:', content.length);
-			this.debug('Searching for footnote definitions...');
+			// Put virtual groups at the end, missing definitions last
+			if (a.header.line === -1 && b.header.line === -1) {
+				return (a.isMissingDefinitionsGroup ? 1 : 0) - (b.isMissingDefinitionsGroup ? 1 : 0);
+			}
+			if (a.header.line === -1) return 1;
+			if (b.header.line === -1) return -1;
 
-			let foundFootnoteAt = -1;
-			for (let i = 0; i < lines.length; i++) {
-				const line = lines[i];
+			return a.header.line - b.header.line;
+		});
 
-				if (line.match(/^\s*\[\^[\w-]+\]:/)) {
-					this.debug(`Found footnote definition at line ${i + 1}:`, line.trim().substring(0, 100));
-					if (foundFootnoteAt === -1) {
-						foundFootnoteAt = i;
-					}
-				}
-			}
+		return this.buildHierarchicalGroups(groups);
+	}
 
-			this.debug(`Total footnote definitions found: ${foundFootnoteAt >= 0 ? 'at least 1' : 'none'}`);
+	private buildHierarchicalGroups(flatGroups: FootnoteGroup[]): FootnoteGroup[] {
+		const footnoteGroupsByHeaderLine = new Map < number,
+			FootnoteGroup > ();
+		let noHeaderGroup: FootnoteGroup | null = null;
+		const virtualGroups: FootnoteGroup[] = [];
 
-			if (foundFootnoteAt >= 0) {
-				this.debug('Jumping to first footnote at line', foundFootnoteAt + 1);
-				activeEditor.setCursor({
-					line: foundFootnoteAt,
-					ch: 0
-				});
-				activeEditor.scrollIntoView({
-					from: {
-						line: foundFootnoteAt,
-						ch: 0
-					},
-					to: {
-						line: foundFootnoteAt,
-						ch: 0
-					}
-				}, true);
-				new Notice('Jumped to footnotes section. Use return button to go back.');
-				return;
-			} else {
-				for (let i = 0; i < lines.length; i++) {
-					const line = lines[i];
-					if (line.match(/^#{1,6}\s+(Notes?|Footnotes?)\s*$/i)) {
-						this.debug(`Found Notes/Footnotes heading at line ${i + 1}:`, line);
-						activeEditor.setCursor({
-							line: i,
-							ch: 0
-						});
-						activeEditor.scrollIntoView({
-							from: {
-								line: i,
-								ch: 0
-							},
-							to: {
-								line: i,
-								ch: 0
-							}
-						}, true);
-						new Notice('Jumped to Notes section. Use return button to go back.');
-						return;
-					}
+		flatGroups.forEach((group: FootnoteGroup) => {
+			if (group.header) {
+				if (group.header.line === -1) {
+					// This is the unreferenced or missing definitions group
+					virtualGroups.push(group);
+				} else {
+					footnoteGroupsByHeaderLine.set(group.header.line, group);
 				}
-
-				new Notice('No footnote definitions or Notes section found');
+			} else {
+				noHeaderGroup = group;
 			}
-		} catch (error) {
-			this.debug('Error in jumpToFootnotesSection:', error);
-			new Notice('Error accessing editor: ' + error.message);
+		});
+
+		const allGroups: FootnoteGroup[] = [];
+
+		if (noHeaderGroup) {
+			allGroups.push(noHeaderGroup);
 		}
-	}
 
-	returnToLastEditPosition(editor ? : Editor) {
-		this.debug('returnToLastEditPosition called, editor provided:', !!editor);
+		const sortedHeaders = this.allHeaders.sort((a: HeaderData, b: HeaderData) => a.line - b.line);
+
+		sortedHeaders.forEach((header: HeaderData) => {
+			const existingGroup = footnoteGroupsByHeaderLine.get(header.line);
+			if (existingGroup) {
+				allGroups.push(existingGroup);
+			} else {
+				allGroups.push({
+					header: header,
+					footnotes: []
+				});
+			}
+		});
+
+		// Add virtual groups at the end
+		allGroups.push(...virtualGroups);
 
-		let activeEditor = editor;
-		let targetFile: TFile | null = null;
+		const result: FootnoteGroup[] = [];
+		const stack: FootnoteGroup[] = [];
 
-		if (!activeEditor) {
-			this.debug('No editor provided, getting file from footnotes view');
+		for (const group of allGroups) {
+			if (!group.header) {
+				result.push(group);
+				continue;
+			}
 
-			const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
-			if (footnoteLeaves.length > 0) {
-				const footnoteView = footnoteLeaves[0].view as FootnotesView;
-				targetFile = (footnoteView as any).currentFile;
-				this.debug('Got target file from footnotes view:', !!targetFile);
+			// Handle the special virtual groups
+			if (group.header.line === -1) {
+				result.push(group);
+				continue;
 			}
 
-			if (targetFile) {
-				const leaves = this.app.workspace.getLeavesOfType('markdown');
-				for (const leaf of leaves) {
-					const view = leaf.view as MarkdownView;
-					if (view.file === targetFile) {
-						activeEditor = view.editor;
-						this.debug('Found editor for target file');
-						break;
-					}
+			while (stack.length > 0 && stack[stack.length - 1].header!.level >= group.header.level) {
+				stack.pop();
+			}
+
+			if (stack.length > 0) {
+				const parent = stack[stack.length - 1];
+				if (!parent.children) {
+					parent.children = [];
 				}
+				parent.children.push(group);
+				group.parent = parent;
+			} else {
+				result.push(group);
 			}
 
-			if (!activeEditor) {
-				this.debug('Fallback: searching for any active view');
-				let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+			stack.push(group);
+		}
 
-				if (!activeView) {
-					const leaves = this.app.workspace.getLeavesOfType('markdown');
-					if (leaves.length > 0) {
-						activeView = leaves[0].view as MarkdownView;
-					}
-				}
+		return result;
+	}
 
-				if (!activeView) {
-					new Notice('No markdown editor found. Please click in a markdown document first.');
-					return;
-				}
+	highlightFootnoteInEditor(footnote: FootnoteData, referenceIndex: number = 0, file ? : TFile) {
+	    this.debug('=== highlightFootnoteInEditor START ===');
+	    this.debug('footnote:', footnote.number, 'referenceIndex:', referenceIndex);
 
-				activeEditor = activeView.editor;
-			}
-		}
+	    // Get the file that the footnotes panel is currently showing, unless the caller names one
+	    const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+	    let targetFile: TFile | null = file || null;
 
-		if (!activeEditor || typeof activeEditor.setCursor !== 'function') {
-			this.debug('Editor is invalid or missing setCursor method');
-			new Notice('Unable to access editor');
-			return;
-		}
+	    this.debug('Found footnote leaves:', footnoteLeaves.length);
 
-		try {
-			if (this.lastEditPosition) {
-				this.debug('Attempting to return to stored position:', this.lastEditPosition);
-				activeEditor.setCursor(this.lastEditPosition);
-				activeEditor.scrollIntoView({
-					from: this.lastEditPosition,
-					to: this.lastEditPosition
-				}, true);
+	    if (!targetFile && footnoteLeaves.length > 0) {
+	        const footnoteView = footnoteLeaves[0].view as FootnotesView;
+	        targetFile = (footnoteView as any).currentFile;
+	        this.debug('Panel currentFile:', targetFile?.path);
+	    }
 
-				activeEditor.focus();
+	    // Fallback to active file if panel doesn't have a file
+	    if (!targetFile) {
+	        targetFile = this.app.workspace.getActiveFile();
+	        this.debug('Fallback to active file:', targetFile?.path);
+	    }
 
-				new Notice('Returned to last edit position');
-				this.debug('Successfully returned to position:', this.lastEditPosition);
-			} else {
-				this.debug('No lastEditPosition stored, finding first editable line');
-				const firstEditableLine = this.findFirstEditableLine(activeEditor);
-				const defaultPosition = {
-					line: firstEditableLine,
-					ch: 0
-				};
+	    if (!targetFile) {
+	        new Notice('No active markdown file found');
+	        this.debug('No target file found');
+	        return;
+	    }
 
-				activeEditor.setCursor(defaultPosition);
-				activeEditor.scrollIntoView({
-					from: defaultPosition,
-					to: defaultPosition
-				}, true);
-				activeEditor.focus();
+	    this.debug('Final target file:', targetFile.path);
 
-				new Notice('Jumped to start of content');
-				this.debug('Moved to first editable line:', firstEditableLine);
-			}
-		} catch (error) {
-			this.debug('Error in returnToLastEditPosition:', error);
-			new Notice('Error accessing editor: ' + error.message);
-		}
-	}
+	    // Find the editor for this file
+	    const leaves = this.app.workspace.getLeavesOfType('markdown');
+	    this.debug('Searching through', leaves.length, 'markdown leaves');
+    
+	    let targetEditor: Editor | null = null;
+	    let targetLeaf: WorkspaceLeaf | null = null;
 
-	private findFirstEditableLine(editor: Editor): number {
-		const content = editor.getValue();
-		const lines = content.split('\n');
+	    for (const leaf of leaves) {
+	        const view = leaf.view as MarkdownView;
+	        this.debug('Checking leaf with file:', view.file?.path);
+        
+	        if (view.file === targetFile) {
+	            targetEditor = view.editor;
+	            targetLeaf = leaf;
+	            this.debug('FOUND matching editor for:', targetFile.path);
+	            break;
+	        }
+	    }
 
-		this.debug('Finding first editable line in document with', lines.length, 'lines');
+	    if (!targetEditor || !targetLeaf) {
+	        new Notice('Could not find editor for footnote navigation');
+	        this.debug('No matching editor found');
+	        return;
+	    }
 
-		if (lines[0] && lines[0].trim() === '---') {
-			this.debug('Document starts with frontmatter, looking for end');
+	    // Make sure the target leaf is active (this prevents focus issues)
+	    this.app.workspace.setActiveLeaf(targetLeaf);
+	    this.debug('Making target leaf active');
 
-			for (let i = 1; i < lines.length; i++) {
-				if (lines[i].trim() === '---') {
-					this.debug('Found end of frontmatter at line', i);
+	    // Get current content and extract footnotes
+	    const content = targetEditor.getValue();
+	    this.debug('Got content, length:', content.length);
+    
+	    const footnotes = footnote.isInline ? this.extractInlineFootnotes(content) : this.extractFootnotes(content);
+	    this.debug('Extracted footnotes count:', footnotes.length);
 
-					for (let j = i + 1; j < lines.length; j++) {
-						if (lines[j].trim() !== '') {
-							this.debug('First content line after frontmatter:', j);
-							return j;
-						}
-					}
+	    const match = footnotes.find(f => f.number === footnote.number);
+	    if (!match) {
+	        new Notice(`Footnote [${footnote.number}] not found in current document`);
+	        this.debug('Footnote not found in extracted footnotes');
+	        return;
+	    }
 
-					return i + 1;
-				}
-			}
+	    this.debug('Found footnote, references count:', match.references.length);
 
-			this.debug('Frontmatter missing closing ---, defaulting to line 1');
-			return 1;
-		}
+	    if (!match.references[referenceIndex]) {
+	        new Notice(`Reference ${referenceIndex + 1} not found for footnote [${footnote.number}]`);
+	        this.debug('Reference index out of bounds');
+	        return;
+	    }
 
-		for (let i = 0; i < lines.length; i++) {
-			if (lines[i].trim() !== '') {
-				this.debug('First non-empty line found at:', i);
-				return i;
-			}
-		}
+	    const reference = match.references[referenceIndex];
+	    this.debug('Using reference:', reference);
 
-		this.debug('Document appears empty, defaulting to line 0');
-		return 0;
-	}
+	    // Calculate cursor position more accurately
+	    const beforeReference = content.substring(0, reference.startPos);
+	    const startLine = (beforeReference.match(/\n/g) || []).length;
+	    const lastNewlinePos = beforeReference.lastIndexOf('\n');
+	    const referenceStartInLine = lastNewlinePos === -1 ? reference.startPos : reference.startPos - lastNewlinePos - 1;
 
-	public setSkipRefreshPeriod(milliseconds: number = 1000) {
-		this.skipNextRefresh = true;
-		this.skipRefreshUntil = Date.now() + milliseconds;
-		this.debug('Set skip refresh period until:', this.skipRefreshUntil);
+	    const cursorPos = {
+	        line: startLine,
+	        ch: referenceStartInLine
+	    };
 
-		setTimeout(() => {
-			this.skipNextRefresh = false;
-			this.debug('Cleared skipNextRefresh flag');
-		}, milliseconds);
-	}
+	    this.debug('Calculated cursor position:', cursorPos);
 
-	debounceRefresh() {
-		this.debug('debounceRefresh called, skipNextRefresh:', this.skipNextRefresh, 'skipRefreshUntil:', this.skipRefreshUntil, 'isNavigating:', this.isNavigating, 'now:', Date.now());
+	    // Set cursor and scroll
+	    this.debug('Setting cursor...');
+	    targetEditor.setCursor(cursorPos);
+    
+	    this.debug('Scrolling into view...');
+	    targetEditor.scrollIntoView({
+	        from: cursorPos,
+	        to: cursorPos
+	    }, true);
+    
+	    this.debug('Focusing editor...');
+	    targetEditor.focus();
 
-		if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
-			this.debug('Skipping refresh due to skip flags');
-			return;
-		}
+	    // FIXED: Always show the success notice immediately
+	    const referenceNumber = referenceIndex + 1;
+	    const totalReferences = match.references.length;
+	    new Notice(`Jumped to footnote [${footnote.number}] reference ${referenceNumber}/${totalReferences} on line ${startLine + 1}`);
 
-		if (this.refreshTimeout) {
-			window.clearTimeout(this.refreshTimeout);
+	    this.debug('Navigation completed successfully');
+	    this.debug('=== highlightFootnoteInEditor END ===');
+	}
+
+	// Resolves the editor for the file shown in the footnotes panel, falling back to the active editor
+	getTargetEditor(): Editor | null {
+		const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+		let targetFile: TFile | null = null;
+		if (footnoteLeaves.length > 0) {
+			targetFile = (footnoteLeaves[0].view as any).currentFile;
 		}
-		this.refreshTimeout = window.setTimeout(() => {
-			if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
-				this.debug('Skipping delayed refresh due to skip flags');
-				return;
+
+		const leaves = this.app.workspace.getLeavesOfType('markdown');
+		if (targetFile) {
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === targetFile) {
+					return view.editor;
+				}
 			}
-			this.debug('Executing delayed refresh');
-			this.refreshFootnotesView();
-		}, 500);
+		}
+
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView) ||
+			(leaves.length > 0 ? leaves[0].view as MarkdownView : null);
+		return activeView ? activeView.editor : null;
 	}
 
-	async activateView() {
-		const {
-			workspace
-		} = this.app;
+	jumpToLine(line: number) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
 
-		let leaf: WorkspaceLeaf | null = null;
-		const leaves = workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+		const position = {
+			line,
+			ch: 0
+		};
+		editor.setCursor(position);
+		editor.scrollIntoView({
+			from: position,
+			to: position
+		}, true);
+		editor.focus();
+	}
 
-		if (leaves.length > 0) {
-			leaf = leaves[0];
-			workspace.revealLeaf(leaf);
-		} else {
-			leaf = workspace.getRightLeaf(false);
-			if (leaf) {
-				await leaf.setViewState({
-					type: FOOTNOTES_VIEW_TYPE,
-					active: true
-				});
-			}
+	// Applies a linter quick fix computed against `content`, refusing if the note has changed since
+	applyLintFix(content: string, fix: (batch: EditBatch) => void) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
+
+		const batch = new EditBatch(content);
+		fix(batch);
+		if (!batch.apply(editor)) {
+			new Notice('The note changed since the problems were listed. Please try again.');
+			this.refreshFootnotesView();
+			return;
 		}
 
+		this.skipNextRefresh = false;
+		this.skipRefreshUntil = 0;
 		this.refreshFootnotesView();
 	}
 
-	refreshFootnotesView() {
-		if (this.skipNextRefresh || Date.now() < this.skipRefreshUntil || this.isNavigating) {
-			this.debug('Skipping footnotes view refresh due to skip flags, skipNextRefresh:', this.skipNextRefresh, 'now:', Date.now(), 'skipUntil:', this.skipRefreshUntil, 'isNavigating:', this.isNavigating);
+	highlightOrphanedReferenceInEditor(number: string, referenceIndex: number) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('Could not find editor for footnote navigation');
 			return;
 		}
 
-		this.debug('Proceeding with footnotes view refresh');
-		const leaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
-		leaves.forEach(leaf => {
-			if (leaf.view instanceof FootnotesView) {
-				(leaf.view as any).skipCheckTimestamp = Date.now();
-				(leaf.view as any).lastRefreshCheck = Date.now();
-				leaf.view.refresh();
-			}
-		});
-	}
+		const references = this.findOrphanedReferences(editor.getValue()).filter(ref => ref.number === number);
+		const reference = references[referenceIndex];
+		if (!reference) {
+			new Notice(`Reference ${referenceIndex + 1} not found for footnote [${number}]`);
+			return;
+		}
 
-	// NEW: Enhanced extractFootnotes method that separates referenced and unreferenced footnotes
-	extractFootnotesWithUnreferenced(content: string): {
-		referencedFootnotes: FootnoteData[],
-		unreferencedFootnotes: FootnoteData[]
-	} {
-		const footnoteDefinitions = new Map < string,
-			FootnoteDefinition > ();
-		const footnoteReferences = new Map < string,
-			FootnoteReference[] > ();
+		const cursorPos = editor.offsetToPos(reference.startPos);
+		editor.setCursor(cursorPos);
+		editor.scrollIntoView({
+			from: cursorPos,
+			to: cursorPos
+		}, true);
+		editor.focus();
+		new Notice(`Jumped to reference ${referenceIndex + 1}/${references.length} of missing footnote [${number}] on line ${reference.line + 1}`);
+	}
 
-		// Extract footnote definitions first
-		const definitionRegex = /^\[\^([\w-]+)\]:\s*(.*)$/gm;
-		let match;
-		while ((match = definitionRegex.exec(content)) !== null) {
-			const number = match[1];
-			const contentText = match[2];
-			const startPos = match.index;
-			const endPos = match.index + match[0].length;
+	createMissingDefinition(number: string) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
 
-			const beforeDefinition = content.substring(0, startPos);
-			const line = (beforeDefinition.match(/\n/g) || []).length;
+		const content = editor.getValue();
+		if (new FootnoteParser(content).getDefinitions().some(d => d.number === number)) {
+			new Notice(`Footnote [${number}] already has a definition`);
+			this.refreshFootnotesView();
+			return;
+		}
 
-			const definition: FootnoteDefinition = {
-				number,
-				content: contentText,
-				line,
-				startPos,
-				endPos,
-				fullMatch: match[0]
-			};
+		const firstReference = this.findOrphanedReferences(content).find(ref => ref.number === number);
+		const batch = new EditBatch(content);
+		this.insertDefinitions(batch, [{
+			text: `[^${number}]: `,
+			anchor: firstReference ? firstReference.startPos : content.length
+		}]);
+		batch.apply(editor);
+		new Notice(`Definition for footnote [${number}] created`);
+		this.skipNextRefresh = false;
+		this.skipRefreshUntil = 0;
+		this.refreshFootnotesView();
+	}
 
-			footnoteDefinitions.set(number, definition);
+	removeOrphanedReferences(number: string) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
 		}
 
-		// Extract footnote references
-		const referenceRegex = /\[\^([\w-]+)\]/g;
-		while ((match = referenceRegex.exec(content)) !== null) {
-			const number = match[1];
-			const startPos = match.index;
-			const endPos = match.index + match[0].length;
-
-			// Check if this match is actually a definition by looking at the context
-			const beforeMatch = content.substring(Math.max(0, startPos - 10), startPos);
-			const afterMatch = content.substring(endPos, endPos + 2);
+		const batch = new EditBatch(editor.getValue());
+		const references = this.findOrphanedReferences(batch.content).filter(ref => ref.number === number);
 
-			const lineStart = beforeMatch.lastIndexOf('\n');
-			const textBeforeOnLine = lineStart >= 0 ? beforeMatch.substring(lineStart + 1) : beforeMatch;
+		references.forEach(ref => {
+			batch.deleteSpan(ref.startPos, ref.endPos);
+		});
 
-			if (textBeforeOnLine.trim() === '' && afterMatch.startsWith(':')) {
-				this.debug('Skipping footnote definition (not a reference):', match[0]);
-				continue;
-			}
+		batch.apply(editor);
+		new Notice(`Removed ${references.length} reference(s) to missing footnote [${number}]`);
+		this.skipNextRefresh = false;
+		this.skipRefreshUntil = 0;
+		this.refreshFootnotesView();
+	}
 
-			const beforeReference = content.substring(0, startPos);
-			const line = (beforeReference.match(/\n/g) || []).length;
+	// Text of the line around a reference, shortened to roughly a sentence on either side,
+	// or with `toSentence` cut exactly at the boundaries of the sentence containing the reference
+	getReferenceContext(content: string, reference: FootnoteReference | OrphanedReference, radius: number = 50, toSentence = false): string {
+		const lineStart = content.lastIndexOf('\n', reference.startPos - 1) + 1;
+		const lineEndIndex = content.indexOf('\n', reference.endPos);
+		const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex;
+
+		if (toSentence) {
+			const sentenceStart = lineStart + content.substring(lineStart, reference.startPos).search(/[^.!?]*$/);
+			const sentenceEnd = content.substring(reference.endPos, lineEnd).search(/[.!?](\s|$)/);
+			return content.substring(sentenceStart, sentenceEnd === -1 ? lineEnd : reference.endPos + sentenceEnd + 1).trim();
+		}
 
-			const reference: FootnoteReference = {
-				number,
-				line,
-				startPos,
-				endPos,
-				fullMatch: match[0]
-			};
+		const from = Math.max(lineStart, reference.startPos - radius);
+		const to = Math.min(lineEnd, reference.endPos + radius);
+		const prefix = from > lineStart ? '…' : '';
+		const suffix = to < lineEnd ? '…' : '';
+		return `${prefix}${content.substring(from, to).trim()}${suffix}`;
+	}
 
-			if (!footnoteReferences.has(number)) {
-				footnoteReferences.set(number, []);
-			}
-			footnoteReferences.get(number) !.push(reference);
+	openDuplicateDefinitionModal(number: string) {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
 		}
 
-		// Separate referenced and unreferenced footnotes
-		const referencedFootnotes: FootnoteData[] = [];
-		const unreferencedFootnotes: FootnoteData[] = [];
+		const content = editor.getValue();
+		const footnote = this.extractFootnotes(content).find(f => f.number === number);
+		if (!footnote || !footnote.duplicateDefinitions) {
+			new Notice(`Footnote [${number}] no longer has duplicate definitions`);
+			this.refreshFootnotesView();
+			return;
+		}
 
-		footnoteDefinitions.forEach((definition, number) => {
-			const references = footnoteReferences.get(number) || [];
-			const footnote: FootnoteData = {
-				number,
-				content: definition.content,
-				definition,
-				references,
-				referenceCount: references.length,
-				isUnreferenced: references.length === 0
-			};
+		new DuplicateDefinitionModal(this.app, this, footnote, content, this.getEditorStartNumber(editor)).open();
+	}
 
-			if (references.length === 0) {
-				unreferencedFootnotes.push(footnote);
-			} else {
-				referencedFootnotes.push(footnote);
-			}
-		});
+	// Re-reads the duplicated footnote from the editor so edits use current positions
+	private getDuplicatedFootnote(number: string): {
+		editor: Editor,
+		content: string,
+		footnote: FootnoteData,
+		definitions: FootnoteDefinition[]
+	} | null {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return null;
+		}
 
-		this.debug('Extracted footnotes:', {
-			referenced: referencedFootnotes.length,
-			unreferenced: unreferencedFootnotes.length
-		});
+		const content = editor.getValue();
+		const footnote = this.extractFootnotes(content).find(f => f.number === number);
+		if (!footnote || !footnote.duplicateDefinitions) {
+			new Notice(`Footnote [${number}] no longer has duplicate definitions`);
+			return null;
+		}
 
 		return {
-			referencedFootnotes,
-			unreferencedFootnotes
+			editor,
+			content,
+			footnote,
+			definitions: [footnote.definition, ...footnote.duplicateDefinitions]
 		};
 	}
 
-	// Keep the original method for backward compatibility
-	extractFootnotes(content: string): FootnoteData[] {
-		const {
-			referencedFootnotes,
-			unreferencedFootnotes
-		} = this.extractFootnotesWithUnreferenced(content);
-		return [...referencedFootnotes, ...unreferencedFootnotes];
-	}
-
-	// NEW: Method to find orphaned references (references without definitions)
-	findOrphanedReferences(content: string): OrphanedReference[] {
-		const footnoteDefinitions = new Set < string > ();
-		const orphanedReferences: OrphanedReference[] = [];
+	keepDuplicateDefinition(number: string, keepIndex: number) {
+		const duplicated = this.getDuplicatedFootnote(number);
+		if (!duplicated) return;
 
-		// First pass: collect all footnote definition numbers
-		const definitionRegex = /^\[\^([\w-]+)\]:\s*(.*)$/gm;
-		let match;
-		while ((match = definitionRegex.exec(content)) !== null) {
-			footnoteDefinitions.add(match[1]);
-		}
+		const removed = duplicated.definitions.filter((_, index) => index !== keepIndex);
+		const batch = new EditBatch(duplicated.content);
+		removed.forEach(definition => batch.deleteDefinition(definition));
+		batch.apply(duplicated.editor);
+		new Notice(`Kept one definition of [${number}], removed ${removed.length}`);
+		this.refreshFootnotesView();
+	}
 
-		// Second pass: find references without definitions
-		const referenceRegex = /\[\^([\w-]+)\]/g;
-		while ((match = referenceRegex.exec(content)) !== null) {
-			const number = match[1];
-			const startPos = match.index;
-			const endPos = match.index + match[0].length;
+	mergeDuplicateDefinitions(number: string, mergedText: string) {
+		const duplicated = this.getDuplicatedFootnote(number);
+		if (!duplicated) return;
 
-			// Skip if this is actually a definition
-			const beforeMatch = content.substring(Math.max(0, startPos - 10), startPos);
-			const afterMatch = content.substring(endPos, endPos + 2);
-			const lineStart = beforeMatch.lastIndexOf('\n');
-			const textBeforeOnLine = lineStart >= 0 ? beforeMatch.substring(lineStart + 1) : beforeMatch;
+		const [first, ...rest] = duplicated.definitions;
+		const batch = new EditBatch(duplicated.content);
+		rest.forEach(definition => batch.deleteDefinition(definition));
+		batch.replace(first.startPos, first.endPos, this.formatFootnoteDefinition(number, mergedText));
+		batch.apply(duplicated.editor);
+		new Notice(`Merged ${duplicated.definitions.length} definitions of [${number}]`);
+		this.refreshFootnotesView();
+	}
 
-			if (textBeforeOnLine.trim() === '' && afterMatch.startsWith(':')) {
-				continue;
-			}
+	renumberDuplicateDefinition(number: string, definitionIndex: number, referenceIndices: number[]) {
+		const duplicated = this.getDuplicatedFootnote(number);
+		if (!duplicated) return;
 
-			// Check if this reference has no corresponding definition
-			if (!footnoteDefinitions.has(number)) {
-				const beforeReference = content.substring(0, startPos);
-				const line = (beforeReference.match(/\n/g) || []).length;
+		const definition = duplicated.definitions[definitionIndex];
+		if (!definition || definitionIndex === 0) {
+			new Notice('Select one of the later definitions to renumber');
+			return;
+		}
 
-				orphanedReferences.push({
-					number,
-					line,
-					startPos,
-					endPos,
-					fullMatch: match[0]
-				});
+		const newNumber = this.getNextFootnoteNumber(duplicated.content, [], this.getEditorStartNumber(duplicated.editor)).toString();
+		const batch = new EditBatch(duplicated.content);
+		batch.replace(definition.startPos, definition.startPos + `[^${number}]`.length, `[^${newNumber}]`);
+		referenceIndices.forEach(index => {
+			const reference = duplicated.footnote.references[index];
+			if (reference) {
+				batch.replace(reference.startPos, reference.endPos, `[^${newNumber}]`);
 			}
-		}
+		});
 
-		return orphanedReferences;
+		batch.apply(duplicated.editor);
+		new Notice(`Definition on line ${definition.line + 1} is now [${newNumber}] with ${referenceIndices.length} reference(s)`);
+		this.refreshFootnotesView();
 	}
 
-	extractHeaders(content: string): HeaderData[] {
-		const lines = content.split('\n');
-		const headers: HeaderData[] = [];
-		const headerRegex = /^(#{1,6})\s+(.+)$/;
+	// Normalizes footnote text for duplicate detection: case, whitespace and trailing punctuation are ignored
+	normalizeFootnoteContent(text: string): string {
+		return text.toLowerCase().replace(/\s+/g, ' ').trim().replace(/[.;,]+$/, '');
+	}
 
-		lines.forEach((line: string, lineIndex: number) => {
-			const match = headerRegex.exec(line.trim());
-			if (match) {
-				headers.push({
-					text: match[2].trim(),
-					level: match[1].length,
-					line: lineIndex
-				});
+	findDuplicateContentGroups(footnotes: FootnoteData[]): FootnoteData[][] {
+		const groupsByContent = new Map < string,
+			FootnoteData[] > ();
+		footnotes.forEach(footnote => {
+			const key = this.normalizeFootnoteContent(footnote.content);
+			if (!key) return;
+			if (!groupsByContent.has(key)) {
+				groupsByContent.set(key, []);
 			}
+			groupsByContent.get(key) !.push(footnote);
 		});
 
-		return headers;
+		return Array.from(groupsByContent.values())
+			.filter(group => group.length > 1)
+			.map(group => group.sort((a, b) => a.definition.startPos - b.definition.startPos));
 	}
 
-	groupFootnotesByHeaders(footnotes: FootnoteData[], headers: HeaderData[]): FootnoteGroup[] {
-		this.allHeaders = headers;
-
-		const groups: FootnoteGroup[] = [];
-		const sortedHeaders = [...headers].sort((a, b) => a.line - b.line);
-
-		// Separate referenced and unreferenced footnotes
-		const referencedFootnotes = footnotes.filter(f => f.references.length > 0);
-		const unreferencedFootnotes = footnotes.filter(f => f.references.length === 0);
-
-		// Process referenced footnotes (existing logic)
-		referencedFootnotes.forEach(footnote => {
-			// Find the header for the first reference of this footnote
-			const firstRef = footnote.references[0];
-			if (!firstRef) return;
-
-			let nearestHeader: HeaderData | null = null;
+	findDuplicateContent() {
+		const editor = this.getTargetEditor();
+		if (!editor) {
+			new Notice('No markdown editor found. Please click in a markdown document first.');
+			return;
+		}
 
-			for (let i = sortedHeaders.length - 1; i >= 0; i--) {
-				if (sortedHeaders[i].line < firstRef.line) {
-					nearestHeader = sortedHeaders[i];
-					break;
-				}
-			}
+		const groups = this.findDuplicateContentGroups(this.extractFootnotes(editor.getValue()));
+		if (groups.length === 0) {
+			new Notice('No footnotes with duplicate content found');
+			return;
+		}
 
-			let group = groups.find(g =>
-				(g.header === null && nearestHeader === null) ||
-				(g.header !== null && nearestHeader !== null && g.header.line === nearestHeader.line)
-			);
+		new DuplicateContentModal(this.app, this, groups, (merges, renumber) => {
+			this.mergeFootnotes(editor, merges, renumber);
+		}).open();
+	}
 
-			if (!group) {
-				group = {
-					header: nearestHeader,
-					footnotes: []
-				};
-				groups.push(group);
-			}
+	// Points the references of each merged label at its survivor and deletes the merged definitions
+	mergeFootnotes(editor: Editor, merges: Array < { survivor: string, merged: string[] } > , renumber: boolean) {
+		const content = editor.getValue();
+		const survivors = new Map < string, string > ();
+		merges.forEach(merge => merge.merged.forEach(number => survivors.set(number, merge.survivor)));
+		const mergedCount = this.extractFootnotes(content).filter(f => survivors.has(f.number)).length;
+
+		// Merging and renumbering are one edit, so a single undo reverts both
+		const plan = this.planRenumbering(content, {
+			fixGaps: renumber,
+			removeUnreferenced: false,
+			reorderByPosition: false,
+			labelMode: 'keep-named',
+			chapterLevel: this.getChapterLevel(),
+			startNumber: this.getEditorStartNumber(editor)
+		}, survivors);
+		plan.batch.apply(editor);
+
+		new Notice(renumber ?
+			`${mergedCount} footnote(s) merged into their duplicates and the rest renumbered` :
+			`${mergedCount} footnote(s) merged into their duplicates`);
+		this.refreshFootnotesView();
+	}
 
-			group.footnotes.push(footnote);
-		});
+	highlightHeaderInEditor(header: HeaderData) {
+		this.debug('highlightHeaderInEditor called', header);
 
-		// Add unreferenced footnotes to a special "Unreferenced" group
-		if (unreferencedFootnotes.length > 0) {
-			const unreferencedGroup: FootnoteGroup = {
-				header: {
-					text: "Unreferenced Footnotes",
-					level: 1, // Make it a top-level heading
-					line: -1 // Special line number to indicate it's virtual
-				},
-				footnotes: unreferencedFootnotes
-			};
-			groups.push(unreferencedGroup);
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice('No active markdown file');
+			return;
 		}
 
-		// Sort footnotes within each group by number
-		groups.forEach(group => {
-			group.footnotes.sort((a, b) => {
-				const aNum = parseInt(a.number);
-				const bNum = parseInt(b.number);
-				if (isNaN(aNum) || isNaN(bNum)) {
-					return a.number.localeCompare(b.number);
-				}
-				return aNum - bNum;
-			});
-		});
+		this.app.workspace.getLeaf().openFile(file).then(() => {
+			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (!activeView) return;
 
-		// Sort groups by header line (unreferenced group goes last)
-		groups.sort((a, b) => {
-			if (a.header === null && b.header === null) return 0;
-			if (a.header === null) return -1;
-			if (b.header === null) return 1;
+			const editor = activeView.editor;
+			const headers = this.extractHeaders(editor.getValue());
+			const match = headers.find(h => h.text === header.text && h.level === header.level);
 
-			// Put unreferenced group at the end
-			if (a.header.line === -1) return 1;
-			if (b.header.line === -1) return -1;
+			if (!match) return;
 
-			return a.header.line - b.header.line;
+			editor.setCursor({
+				line: match.line,
+				ch: 0
+			});
+			editor.scrollIntoView({
+				from: {
+					line: match.line,
+					ch: 0
+				},
+				to: {
+					line: match.line,
+					ch: 0
+				}
+			}, true);
 		});
-
-		return this.buildHierarchicalGroups(groups);
 	}
 
-	private buildHierarchicalGroups(flatGroups: FootnoteGroup[]): FootnoteGroup[] {
-		const footnoteGroupsByHeaderLine = new Map < number,
-			FootnoteGroup > ();
-		let noHeaderGroup: FootnoteGroup | null = null;
-		let unreferencedGroup: FootnoteGroup | null = null;
+	// NEW: Enhanced renumberFootnotes method
+	renumberFootnotes(editor ? : Editor) {
+		this.debug('renumberFootnotes called, editor provided:', !!editor);
 
-		flatGroups.forEach((group: FootnoteGroup) => {
-			if (group.header) {
-				if (group.header.line === -1) {
-					// This is the unreferenced group
-					unreferencedGroup = group;
-				} else {
-					footnoteGroupsByHeaderLine.set(group.header.line, group);
-				}
-			} else {
-				noHeaderGroup = group;
-			}
-		});
+		// Get editor (existing logic)
+		let activeEditor: Editor | null = editor || null;
+		let targetFile: TFile | null = null;
 
-		const allGroups: FootnoteGroup[] = [];
+		this.debug('Getting file from footnotes view');
 
-		if (noHeaderGroup) {
-			allGroups.push(noHeaderGroup);
+		const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
+		if (!activeEditor && footnoteLeaves.length > 0) {
+			const footnoteView = footnoteLeaves[0].view as FootnotesView;
+			targetFile = (footnoteView as any).currentFile;
+			this.debug('Got target file from footnotes view:', !!targetFile);
 		}
 
-		const sortedHeaders = this.allHeaders.sort((a: HeaderData, b: HeaderData) => a.line - b.line);
-
-		sortedHeaders.forEach((header: HeaderData) => {
-			const existingGroup = footnoteGroupsByHeaderLine.get(header.line);
-			if (existingGroup) {
-				allGroups.push(existingGroup);
-			} else {
-				allGroups.push({
-					header: header,
-					footnotes: []
-				});
+		if (targetFile) {
+			const leaves = this.app.workspace.getLeavesOfType('markdown');
+			for (const leaf of leaves) {
+				const view = leaf.view as MarkdownView;
+				if (view.file === targetFile) {
+					activeEditor = view.editor;
+					this.debug('Found editor for target file');
+					break;
+				}
 			}
-		});
-
-		// Add unreferenced group at the end
-		if (unreferencedGroup) {
-			allGroups.push(unreferencedGroup);
 		}
 
-		const result: FootnoteGroup[] = [];
-		const stack: FootnoteGroup[] = [];
+		if (!activeEditor) {
+			this.debug('Fallback: searching for any active view');
+			let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 
-		for (const group of allGroups) {
-			if (!group.header) {
-				result.push(group);
-				continue;
+			if (!activeView) {
+				const leaves = this.app.workspace.getLeavesOfType('markdown');
+				if (leaves.length > 0) {
+					activeView = leaves[0].view as MarkdownView;
+				}
 			}
 
-			// Handle the special unreferenced group
-			if (group.header.line === -1) {
-				result.push(group);
-				continue;
+			if (!activeView) {
+				new Notice('No markdown editor found. Please click in a markdown document first.');
+				return;
 			}
 
-			while (stack.length > 0 && stack[stack.length - 1].header!.level >= group.header.level) {
-				stack.pop();
+			activeEditor = activeView.editor;
+		}
+
+		if (!activeEditor || typeof activeEditor.getValue !== 'function') {
+			this.debug('Editor is invalid or missing getValue method');
+			new Notice('Unable to access editor');
+			return;
+		}
+
+		try {
+			const content = activeEditor.getValue();
+			const startNumber = this.getEditorStartNumber(activeEditor);
+			const {
+				footnotes,
+				gaps,
+				unreferencedFootnotes,
+				isOutOfOrder
+			} = this.analyzeFootnotes(content, startNumber);
+
+			if (footnotes.length === 0) {
+				new Notice('No footnotes found to process');
+				return;
 			}
 
-			if (stack.length > 0) {
-				const parent = stack[stack.length - 1];
-				if (!parent.children) {
-					parent.children = [];
+			// Show enhanced confirmation modal
+			new EnhancedRenumberConfirmationModal(
+				this.app,
+				this,
+				content,
+				gaps,
+				unreferencedFootnotes,
+				isOutOfOrder,
+				startNumber,
+				(plan: RenumberPlan) => {
+					this.performEnhancedRenumbering(activeEditor!, plan);
 				}
-				parent.children.push(group);
-				group.parent = parent;
-			} else {
-				result.push(group);
-			}
+			).open();
 
-			stack.push(group);
+		} catch (error) {
+			this.debug('Error in renumberFootnotes:', error);
+			new Notice('Error accessing document: ' + error.message);
 		}
-
-		return result;
 	}
 
-	highlightFootnoteInEditor(footnote: FootnoteData, referenceIndex: number = 0) {
-	    this.debug('=== highlightFootnoteInEditor START ===');
-	    this.debug('footnote:', footnote.number, 'referenceIndex:', referenceIndex);
-
-	    // Get the file that the footnotes panel is currently showing
-	    const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
-	    let targetFile: TFile | null = null;
-
-	    this.debug('Found footnote leaves:', footnoteLeaves.length);
+	// Detects the numbering and reference problems reported by the renumber dialog and the audit view
+	analyzeFootnotes(content: string, startNumber = 1): FootnoteAnalysis {
+		const footnotes = this.extractFootnotes(content);
 
-	    if (footnoteLeaves.length > 0) {
-	        const footnoteView = footnoteLeaves[0].view as FootnotesView;
-	        targetFile = (footnoteView as any).currentFile;
-	        this.debug('Panel currentFile:', targetFile?.path);
-	    }
+		// Check for gaps in numbering
+		const referencedFootnotes = footnotes.filter(f => f.references.length > 0);
+		const chapterLevel = this.getChapterLevel();
+		const gaps: string[] = [];
 
-	    // Fallback to active file if panel doesn't have a file
-	    if (!targetFile) {
-	        targetFile = this.app.workspace.getActiveFile();
-	        this.debug('Fallback to active file:', targetFile?.path);
-	    }
+		// Chapter-prefixed labels form one sequence per chapter, even if the note was renumbered per chapter
+		// from the renumber dialog without chapter numbering turned on
+		[...this.getChapterSequences(footnotes, startNumber).entries()]
+			.sort(([a], [b]) => a - b)
+			.forEach(([, sequence]) => gaps.push(...sequence.gaps));
 
-	    if (!targetFile) {
-	        new Notice('No active markdown file found');
-	        this.debug('No target file found');
-	        return;
-	    }
+		// Check for unreferenced footnotes
+		const unreferencedFootnotes = footnotes.filter(f => f.references.length === 0);
 
-	    this.debug('Final target file:', targetFile.path);
+		// Check for out-of-order references (numbers not ascending by text position)
+		const sortedByRefPosition = [...referencedFootnotes].sort((a, b) =>
+			(a.references[0]?.startPos ?? 0) - (b.references[0]?.startPos ?? 0)
+		);
+		const chapterHeadings = chapterLevel !== null ? this.getChapterHeadings(content, chapterLevel) : [];
+		const firstRefOutOfOrder = sortedByRefPosition.find((f, i) => {
+			if (chapterLevel !== null) {
+				// A label must also carry the chapter its first reference is in
+				const label = this.parseSequenceLabel(f.number);
+				if (label && label.chapter !== this.getChapterOf(chapterHeadings, f.references[0].line)) return true;
+				return i > 0 && this.compareFootnoteLabels(f.number, sortedByRefPosition[i - 1].number) < 0;
+			}
+			return i > 0 && this.compareFootnoteLabels(f.number, sortedByRefPosition[i - 1].number) < 0;
+		});
 
-	    // Find the editor for this file
-	    const leaves = this.app.workspace.getLeavesOfType('markdown');
-	    this.debug('Searching through', leaves.length, 'markdown leaves');
-    
-	    let targetEditor: Editor | null = null;
-	    let targetLeaf: WorkspaceLeaf | null = null;
+		// Check for out-of-order definitions (definitions not physically sorted by number)
+		const sortedByDefPosition = [...referencedFootnotes].sort((a, b) =>
+			a.definition.startPos - b.definition.startPos
+		);
+		const firstDefOutOfOrder = sortedByDefPosition.find((f, i) =>
+			i > 0 && this.compareFootnoteLabels(f.number, sortedByDefPosition[i - 1].number) < 0
+		);
 
-	    for (const leaf of leaves) {
-	        const view = leaf.view as MarkdownView;
-	        this.debug('Checking leaf with file:', view.file?.path);
-        
-	        if (view.file === targetFile) {
-	            targetEditor = view.editor;
-	            targetLeaf = leaf;
-	            this.debug('FOUND matching editor for:', targetFile.path);
-	            break;
-	        }
-	    }
+		// Check for labels defined more than once
+		const duplicateDefinitions: FootnoteDefinition[] = [];
+		footnotes.forEach(footnote => {
+			if (footnote.duplicateDefinitions) {
+				duplicateDefinitions.push(footnote.definition, ...footnote.duplicateDefinitions);
+			}
+		});
 
-	    if (!targetEditor || !targetLeaf) {
-	        new Notice('Could not find editor for footnote navigation');
-	        this.debug('No matching editor found');
-	        return;
-	    }
+		return {
+			footnotes,
+			gaps,
+			unreferencedFootnotes,
+			orphanedReferences: this.findOrphanedReferences(content),
+			duplicateDefinitions,
+			isOutOfOrder: !!firstRefOutOfOrder || !!firstDefOutOfOrder,
+			firstOutOfOrder: firstRefOutOfOrder || firstDefOutOfOrder || null
+		};
+	}
 
-	    // Make sure the target leaf is active (this prevents focus issues)
-	    this.app.workspace.setActiveLeaf(targetLeaf);
-	    this.debug('Making target leaf active');
+	// Runs the enabled linter rules over a note; sourcePath is used to resolve wikilinks
+	lintFootnotes(content: string, sourcePath: string): FootnoteLintProblem[] {
+		const rules = this.settings.lintRules;
+		const parser = new FootnoteParser(content);
+		const definitions = parser.getDefinitions();
+		const references = parser.getReferences();
+		const footnotes = this.extractFootnotes(content);
+		const inlineFootnotes = this.extractInlineFootnotes(content);
+		const lines = content.split('\n');
+		const problems: FootnoteLintProblem[] = [];
+
+		if (rules['empty-footnote']) {
+			footnotes.filter(f => f.content.trim() === '').forEach(footnote => {
+				problems.push({
+					rule: 'empty-footnote',
+					message: `Footnote [^${footnote.number}] is empty`,
+					line: footnote.definition.line,
+					fix: {
+						label: 'Delete footnote',
+						apply: batch => {
+							batch.deleteDefinition(footnote.definition);
+							footnote.references.forEach(ref => batch.deleteSpan(ref.startPos, ref.endPos));
+						}
+					}
+				});
+			});
+			inlineFootnotes.filter(f => f.content.trim() === '').forEach(footnote => {
+				problems.push({
+					rule: 'empty-footnote',
+					message: 'Inline footnote is empty',
+					line: footnote.definition.line,
+					fix: {
+						label: 'Delete footnote',
+						apply: batch => batch.deleteSpan(footnote.definition.startPos, footnote.definition.endPos)
+					}
+				});
+			});
+		}
 
-	    // Get current content and extract footnotes
-	    const content = targetEditor.getValue();
-	    this.debug('Got content, length:', content.length);
-    
-	    const footnotes = this.extractFootnotes(content);
-	    this.debug('Extracted footnotes count:', footnotes.length);
+		if (rules['trailing-whitespace']) {
+			definitions.filter(d => d.content.trim() !== '').forEach(definition => {
+				const whitespace: Array < { from: number, to: number } > = [];
+				const whitespaceRegex = /[ \t]+$/gm;
+				let match;
+				while ((match = whitespaceRegex.exec(definition.fullMatch)) !== null) {
+					whitespace.push({
+						from: definition.startPos + match.index,
+						to: definition.startPos + match.index + match[0].length
+					});
+				}
+				if (whitespace.length === 0) return;
+
+				problems.push({
+					rule: 'trailing-whitespace',
+					message: `Footnote [^${definition.number}] has trailing whitespace`,
+					line: definition.line,
+					fix: {
+						label: 'Trim',
+						apply: batch => whitespace.forEach(range => batch.delete(range.from, range.to))
+					}
+				});
+			});
+		}
 
-	    const match = footnotes.find(f => f.number === footnote.number);
-	    if (!match) {
-	        new Notice(`Footnote [${footnote.number}] not found in current document`);
-	        this.debug('Footnote not found in extracted footnotes');
-	        return;
-	    }
+		if (rules['duplicate-adjacent-reference']) {
+			references.forEach((ref, index) => {
+				const previous = references[index - 1];
+				if (!previous || previous.endPos !== ref.startPos || previous.number !== ref.number) return;
+
+				problems.push({
+					rule: 'duplicate-adjacent-reference',
+					message: `Reference [^${ref.number}] is repeated`,
+					line: ref.line,
+					fix: {
+						label: 'Remove duplicate',
+						apply: batch => batch.delete(ref.startPos, ref.endPos)
+					}
+				});
+			});
+		}
 
-	    this.debug('Found footnote, references count:', match.references.length);
+		if (rules['reference-in-heading']) {
+			references.filter(ref => /^#{1,6}\s/.test(lines[ref.line].trim())).forEach(ref => {
+				problems.push({
+					rule: 'reference-in-heading',
+					message: `Reference [^${ref.number}] is inside a heading`,
+					line: ref.line
+				});
+			});
+		}
 
-	    if (!match.references[referenceIndex]) {
-	        new Notice(`Reference ${referenceIndex + 1} not found for footnote [${footnote.number}]`);
-	        this.debug('Reference index out of bounds');
-	        return;
-	    }
+		// Per-section and per-paragraph placement put definitions mid-document on purpose, as does a note
+		// converted to per-section notes headings
+		const placesDefinitionsAtEnd = this.settings.definitionPlacement === 'end-of-document' || this.settings.definitionPlacement === 'notes-heading';
+		const sectionNotesHeading = this.settings.sectionNotesHeading.trim();
+		const isLaidOutBySection = lines.some((text, line) => text.trim() === sectionNotesHeading && !parser.isExcluded(parser.getLineStart(line)));
+		if (rules['definition-mid-document'] && placesDefinitionsAtEnd && !isLaidOutBySection && definitions.length > 0) {
+			// Lines that belong to a definition, including its continuation lines
+			const definitionLines = new Set < number > ();
+			definitions.forEach(definition => {
+				for (let line = definition.line; line <= parser.getLineNumber(definition.endPos); line++) {
+					definitionLines.add(line);
+				}
+			});
 
-	    const reference = match.references[referenceIndex];
-	    this.debug('Using reference:', reference);
+			let lastBodyLine = -1;
+			lines.forEach((text, line) => {
+				if (text.trim() !== '' && !definitionLines.has(line)) {
+					lastBodyLine = line;
+				}
+			});
 
-	    // Calculate cursor position more accurately
-	    const beforeReference = content.substring(0, reference.startPos);
-	    const startLine = (beforeReference.match(/\n/g) || []).length;
-	    const lastNewlinePos = beforeReference.lastIndexOf('\n');
-	    const referenceStartInLine = lastNewlinePos === -1 ? reference.startPos : reference.startPos - lastNewlinePos - 1;
+			const trailingDefinitions = definitions.filter(d => d.line > lastBodyLine);
+			const lastTrailing = trailingDefinitions[trailingDefinitions.length - 1];
+
+			definitions.filter(d => d.line < lastBodyLine).forEach(definition => {
+				problems.push({
+					rule: 'definition-mid-document',
+					message: `Definition [^${definition.number}] is in the middle of the document`,
+					line: definition.line,
+					fix: {
+						label: 'Move to end',
+						apply: batch => {
+							batch.deleteDefinition(definition);
+							if (lastTrailing) {
+								batch.insert(lastTrailing.endPos, '\n' + definition.fullMatch);
+							} else {
+								const separator = content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+								batch.insert(content.length, separator + definition.fullMatch);
+							}
+						}
+					}
+				});
+			});
+		}
 
-	    const cursorPos = {
-	        line: startLine,
-	        ch: referenceStartInLine
-	    };
+		if (rules['unresolved-wikilink']) {
+			const spans = [
+				...definitions.map(d => ({
+					label: `[^${d.number}]`,
+					startPos: d.startPos,
+					endPos: d.endPos
+				})),
+				...inlineFootnotes.map(f => ({
+					label: 'Inline footnote',
+					startPos: f.definition.startPos,
+					endPos: f.definition.endPos
+				}))
+			];
+			spans.forEach(span => {
+				const wikilinkRegex = /!?\[\[([^\]|#^]*)[^\]]*\]\]/g;
+				const text = content.substring(span.startPos, span.endPos);
+				let match;
+				while ((match = wikilinkRegex.exec(text)) !== null) {
+					const linkpath = match[1].trim();
+					if (!linkpath || parser.isExcluded(span.startPos + match.index)) continue;
+					if (this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)) continue;
+
+					problems.push({
+						rule: 'unresolved-wikilink',
+						message: `${span.label} links to missing note "${linkpath}"`,
+						line: parser.getLineNumber(span.startPos + match.index)
+					});
+				}
+			});
+		}
 
-	    this.debug('Calculated cursor position:', cursorPos);
+		return problems.sort((a, b) => a.line - b.line);
+	}
 
-	    // Set cursor and scroll
-	    this.debug('Setting cursor...');
-	    targetEditor.setCursor(cursorPos);
-    
-	    this.debug('Scrolling into view...');
-	    targetEditor.scrollIntoView({
-	        from: cursorPos,
-	        to: cursorPos
-	    }, true);
-    
-	    this.debug('Focusing editor...');
-	    targetEditor.focus();
+	// Flattens the analysis of one document into the rows shown by the audit view
+	collectAuditIssues(content: string, startNumber = 1): FootnoteAuditIssue[] {
+		const analysis = this.analyzeFootnotes(content, startNumber);
+		const chapterLevel = this.getChapterLevel();
+		const issues: FootnoteAuditIssue[] = [];
+
+		analysis.gaps.forEach(gap => {
+			// Point at the first footnote numbered after the gap
+			const next = analysis.footnotes
+				.filter(f => f.references.length > 0 && this.parseSchemeLabel(f.number, chapterLevel) !== null && this.compareFootnoteLabels(f.number, gap) > 0)
+				.sort((a, b) => this.compareFootnoteLabels(a.number, b.number))[0];
+			issues.push({
+				kind: 'gap',
+				message: `Numbering gap: [${gap}] is missing`,
+				line: next ? next.references[0].line : 0,
+				footnote: next
+			});
+		});
 
-	    // FIXED: Always show the success notice immediately
-	    const referenceNumber = referenceIndex + 1;
-	    const totalReferences = match.references.length;
-	    new Notice(`Jumped to footnote [${footnote.number}] reference ${referenceNumber}/${totalReferences} on line ${startLine + 1}`);
+		analysis.unreferencedFootnotes.forEach(footnote => {
+			issues.push({
+				kind: 'unreferenced',
+				message: `Unreferenced definition [${footnote.number}]`,
+				line: footnote.definition.line,
+				footnote
+			});
+		});
 
-	    this.debug('Navigation completed successfully');
-	    this.debug('=== highlightFootnoteInEditor END ===');
-	}
+		analysis.orphanedReferences.forEach(reference => {
+			issues.push({
+				kind: 'missing-definition',
+				message: `Missing definition for [${reference.number}]`,
+				line: reference.line
+			});
+		});
 
-	highlightHeaderInEditor(header: HeaderData) {
-		this.debug('highlightHeaderInEditor called', header);
+		analysis.duplicateDefinitions.forEach(definition => {
+			issues.push({
+				kind: 'duplicate-definition',
+				message: `Duplicate definition [${definition.number}]`,
+				line: definition.line
+			});
+		});
 
-		const file = this.app.workspace.getActiveFile();
-		if (!file) {
-			new Notice('No active markdown file');
-			return;
+		if (analysis.isOutOfOrder && analysis.firstOutOfOrder) {
+			issues.push({
+				kind: 'out-of-order',
+				message: `Out-of-order numbering at [${analysis.firstOutOfOrder.number}]`,
+				line: analysis.firstOutOfOrder.references[0]?.line ?? analysis.firstOutOfOrder.definition.line,
+				footnote: analysis.firstOutOfOrder
+			});
 		}
 
-		this.app.workspace.getLeaf().openFile(file).then(() => {
-			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!activeView) return;
-
-			const editor = activeView.editor;
-			const headers = this.extractHeaders(editor.getValue());
-			const match = headers.find(h => h.text === header.text && h.level === header.level);
+		return issues.sort((a, b) => a.line - b.line);
+	}
 
-			if (!match) return;
+	// Files of the manuscript in reading order: the notes linked from the index note, each listed once.
+	// Returns null when no index note is configured or it cannot be found.
+	getManuscriptFiles(): TFile[] | null {
+		const indexPath = this.settings.manuscriptIndex.trim();
+		if (indexPath === '') return null;
+
+		const indexFile = this.app.vault.getAbstractFileByPath(indexPath);
+		const index = indexFile instanceof TFile ? indexFile : this.app.metadataCache.getFirstLinkpathDest(getLinkpath(indexPath), '');
+		if (!index) return null;
+
+		const cache = this.app.metadataCache.getFileCache(index);
+		const links = [...(cache?.links || []), ...(cache?.embeds || [])]
+			.sort((a, b) => a.position.start.offset - b.position.start.offset);
+		const files: TFile[] = [];
+		links.forEach(link => {
+			const file = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), index.path);
+			if (file && file.extension === 'md' && file !== index && !files.includes(file)) {
+				files.push(file);
+			}
+		});
+		return files;
+	}
 
-			editor.setCursor({
-				line: match.line,
-				ch: 0
-			});
-			editor.scrollIntoView({
-				from: {
-					line: match.line,
-					ch: 0
-				},
-				to: {
-					line: match.line,
-					ch: 0
-				}
-			}, true);
+	// First footnote number of a note. Notes after the first in the manuscript continue its numbering: they
+	// start at their lowest number, or after the footnotes of the notes before them while they have none.
+	getStartNumber(content: string, file: TFile | null): number {
+		const files = file ? this.getManuscriptFiles() : null;
+		const position = files && file ? files.indexOf(file) : -1;
+		if (!files || position <= 0) return 1;
+
+		const parser = new FootnoteParser(content);
+		const numbers = [...parser.getDefinitions().map(d => d.number), ...parser.getReferences().map(r => r.number)]
+			.filter(label => this.isNumericLabel(label))
+			.map(label => parseInt(label));
+		if (numbers.length > 0) return Math.min(...numbers);
+
+		let startNumber = 1;
+		const chapterLevel = this.getChapterLevel();
+		files.slice(0, position).forEach(previous => {
+			const labels = (this.app.metadataCache.getFileCache(previous)?.footnotes || []).map(footnote => footnote.id);
+			startNumber += new Set(labels.filter(label => this.parseSchemeLabel(label, chapterLevel) !== null)).size;
 		});
+		return startNumber;
 	}
 
-	// NEW: Enhanced renumberFootnotes method
-	renumberFootnotes() {
-		this.debug('renumberFootnotes called');
+	getEditorStartNumber(editor: Editor): number {
+		const leaf = this.app.workspace.getLeavesOfType('markdown').find(leaf => (leaf.view as MarkdownView).editor === editor);
+		return this.getStartNumber(editor.getValue(), leaf ? (leaf.view as MarkdownView).file : null);
+	}
 
-		// Get editor (existing logic)
-		let activeEditor: Editor | null = null;
-		let targetFile: TFile | null = null;
+	// Open notes are read from their editor so unsaved changes are included
+	private getOpenEditor(file: TFile): Editor | null {
+		const leaf = this.app.workspace.getLeavesOfType('markdown').find(leaf => (leaf.view as MarkdownView).file === file);
+		return leaf ? (leaf.view as MarkdownView).editor : null;
+	}
 
-		this.debug('Getting file from footnotes view');
+	async readManuscriptFile(file: TFile): Promise < string > {
+		const editor = this.getOpenEditor(file);
+		return editor ? editor.getValue() : await this.app.vault.cachedRead(file);
+	}
 
-		const footnoteLeaves = this.app.workspace.getLeavesOfType(FOOTNOTES_VIEW_TYPE);
-		if (footnoteLeaves.length > 0) {
-			const footnoteView = footnoteLeaves[0].view as FootnotesView;
-			targetFile = (footnoteView as any).currentFile;
-			this.debug('Got target file from footnotes view:', !!targetFile);
+	async renumberManuscript() {
+		const files = this.getManuscriptFiles();
+		if (!files) {
+			new Notice(this.settings.manuscriptIndex.trim() === '' ?
+				'Set the manuscript index note in the Footnotes Manager settings first' :
+				`Manuscript index note "${this.settings.manuscriptIndex}" not found`);
+			return;
+		}
+		if (files.length === 0) {
+			new Notice('The manuscript index note does not link to any notes');
+			return;
 		}
 
-		if (targetFile) {
-			const leaves = this.app.workspace.getLeavesOfType('markdown');
-			for (const leaf of leaves) {
-				const view = leaf.view as MarkdownView;
-				if (view.file === targetFile) {
-					activeEditor = view.editor;
-					this.debug('Found editor for target file');
-					break;
-				}
+		const filePlans = await this.planManuscriptRenumbering(files);
+		if (filePlans.every(filePlan => filePlan.plan.batch.isEmpty)) {
+			new Notice('Manuscript footnotes are already numbered continuously');
+			return;
+		}
+
+		new ManuscriptRenumberModal(this.app, filePlans, async () => {
+			try {
+				await this.applyManuscriptRenumbering(filePlans);
+			} catch (error) {
+				console.error('Footnotes Manager: manuscript renumbering failed', error);
+				new Notice('Could not renumber the manuscript: ' + error.message);
+				this.refreshFootnotesView();
 			}
+		}).open();
+	}
+
+	// Runs the renumbering of each file in order, starting each one after the previous file's last number
+	async planManuscriptRenumbering(files: TFile[]): Promise < ManuscriptFilePlan[] > {
+		const filePlans: ManuscriptFilePlan[] = [];
+		let nextNumber = 1;
+		for (const file of files) {
+			const content = await this.readManuscriptFile(file);
+			const plan = this.planRenumbering(content, {
+				fixGaps: true,
+				removeUnreferenced: false,
+				reorderByPosition: true,
+				labelMode: 'keep-named',
+				chapterLevel: null,
+				startNumber: nextNumber
+			});
+			const count = this.extractFootnotes(content).filter(f => this.parseSchemeLabel(f.number, this.getChapterLevel()) !== null).length;
+			filePlans.push({
+				file,
+				plan,
+				firstNumber: nextNumber,
+				count
+			});
+			nextNumber += count;
 		}
+		return filePlans;
+	}
 
-		if (!activeEditor) {
-			this.debug('Fallback: searching for any active view');
-			let activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+	private async applyManuscriptRenumbering(filePlans: ManuscriptFilePlan[]) {
+		let changedCount = 0;
+		const skipped: string[] = [];
 
-			if (!activeView) {
-				const leaves = this.app.workspace.getLeavesOfType('markdown');
-				if (leaves.length > 0) {
-					activeView = leaves[0].view as MarkdownView;
-				}
-			}
+		for (const filePlan of filePlans) {
+			const batch = filePlan.plan.batch;
+			if (batch.isEmpty) continue;
 
-			if (!activeView) {
-				new Notice('No markdown editor found. Please click in a markdown document first.');
-				return;
+			const editor = this.getOpenEditor(filePlan.file);
+			let applied = false;
+			if (editor) {
+				applied = batch.apply(editor);
+			} else {
+				await this.app.vault.process(filePlan.file, data => {
+					applied = data === batch.content;
+					return applied ? batch.applyToString() : data;
+				});
 			}
 
-			activeEditor = activeView.editor;
+			if (applied) {
+				changedCount++;
+			} else {
+				skipped.push(filePlan.file.basename);
+			}
 		}
 
-		if (!activeEditor || typeof activeEditor.getValue !== 'function') {
-			this.debug('Editor is invalid or missing getValue method');
-			new Notice('Unable to access editor');
+		new Notice(skipped.length > 0 ?
+			`Footnotes renumbered in ${changedCount} note(s). Changed while the dialog was open, not renumbered: ${skipped.join(', ')}` :
+			`Footnotes renumbered in ${changedCount} note(s)`);
+		this.refreshFootnotesView();
+	}
+
+	openExportFootnotesModal(content: string, file: TFile | null) {
+		const rows = this.buildFootnoteExportRows(content);
+		if (rows.length === 0) {
+			new Notice('No footnotes to export');
 			return;
 		}
 
-		try {
-			const content = activeEditor.getValue();
-			const footnotes = this.extractFootnotes(content);
-
-			if (footnotes.length === 0) {
-				new Notice('No footnotes found to process');
-				return;
-			}
+		new ExportFootnotesModal(this.app, rows.length, (format, destination) => {
+			this.exportFootnotes(rows, format, destination, file);
+		}).open();
+	}
 
-			// Check for gaps in numbering
-			const referencedFootnotes = footnotes.filter(f => f.references.length > 0);
-			const sortedNumbers = referencedFootnotes.map(f => parseInt(f.number)).filter(n => !isNaN(n)).sort((a, b) => a - b);
-			const gaps: string[] = [];
+	async exportFootnotes(rows: FootnoteExportRow[], format: FootnoteExportFormat, destination: FootnoteExportDestination, file: TFile | null) {
+		const output = this.formatFootnoteExport(rows, format);
 
-			for (let i = 1; i < sortedNumbers[sortedNumbers.length - 1]; i++) {
-				if (!sortedNumbers.includes(i)) {
-					gaps.push(i.toString());
-				}
+		if (destination === 'clipboard') {
+			try {
+				await navigator.clipboard.writeText(output);
+				new Notice(`${rows.length} footnote(s) copied to the clipboard`);
+			} catch (error) {
+				console.error('Footnotes Manager: clipboard write failed', error);
+				new Notice('Could not copy the footnotes to the clipboard');
 			}
+			return;
+		}
 
-			// Check for unreferenced footnotes
-			const unreferencedFootnotes = footnotes.filter(f => f.references.length === 0);
+		// CSV and JSON go into a code block so the note stays readable and the data copyable
+		const noteContent = format === 'markdown' ? output + '\n' : '```' + format + '\n' + output + '\n```\n';
+		const folder = file?.parent && !file.parent.isRoot() ? file.parent.path + '/' : '';
+		const baseName = `${file ? file.basename : 'Untitled'} footnotes`;
+		let path = `${folder}${baseName}.md`;
+		let suffix = 2;
+		while (this.app.vault.getAbstractFileByPath(path)) {
+			path = `${folder}${baseName} ${suffix++}.md`;
+		}
 
-			// Check for out-of-order references (numbers not ascending by text position)
-			const sortedByRefPosition = [...referencedFootnotes].sort((a, b) =>
-				(a.references[0]?.startPos ?? 0) - (b.references[0]?.startPos ?? 0)
-			);
-			const refsOutOfOrder = sortedByRefPosition.some((f, i) => {
-				if (i === 0) return false;
-				return parseInt(f.number) < parseInt(sortedByRefPosition[i - 1].number);
-			});
+		try {
+			const exported = await this.app.vault.create(path, noteContent);
+			await this.app.workspace.getLeaf(true).openFile(exported);
+			new Notice(`${rows.length} footnote(s) exported to ${path}`);
+		} catch (error) {
+			console.error('Footnotes Manager: export failed', error);
+			new Notice(`Could not create ${path}`);
+		}
+	}
 
-			// Check for out-of-order definitions (definitions not physically sorted by number)
-			const sortedByDefPosition = [...referencedFootnotes].sort((a, b) =>
-				a.definition.startPos - b.definition.startPos
-			);
-			const defsOutOfOrder = sortedByDefPosition.some((f, i) => {
-				if (i === 0) return false;
-				return parseInt(f.number) < parseInt(sortedByDefPosition[i - 1].number);
+	// One row per footnote in document order, with the headings of the sections that cite it
+	buildFootnoteExportRows(content: string): FootnoteExportRow[] {
+		const footnotes = [...this.extractFootnotes(content), ...this.extractInlineFootnotes(content)];
+		const groups = this.groupFootnotesByHeaders(footnotes, this.extractHeaders(content));
+
+		const sections = new Map < string,
+			string[] > ();
+		const collectSections = (groupList: FootnoteGroup[]) => {
+			groupList.forEach(group => {
+				if (group.header && !group.isUnreferencedGroup && !group.isMissingDefinitionsGroup) {
+					const headerText = group.header.text;
+					group.footnotes.forEach(footnote => {
+						const footnoteSections = sections.get(footnote.number) || [];
+						footnoteSections.push(headerText);
+						sections.set(footnote.number, footnoteSections);
+					});
+				}
+				if (group.children) {
+					collectSections(group.children);
+				}
 			});
+		};
+		collectSections(groups);
+
+		const position = (footnote: FootnoteData) => footnote.references[0]?.startPos ?? footnote.definition.startPos;
+		return footnotes.sort((a, b) => position(a) - position(b)).map(footnote => ({
+			label: footnote.number,
+			content: footnote.content,
+			referenceLines: footnote.references.map(ref => ref.line + 1),
+			sections: sections.get(footnote.number) || [],
+			status: footnote.references.length > 0 ? 'referenced' : 'unreferenced'
+		}));
+	}
 
-			const isOutOfOrder = refsOutOfOrder || defsOutOfOrder;
-
-			// If no issues found
-			if (gaps.length === 0 && unreferencedFootnotes.length === 0 && !isOutOfOrder) {
-				new Notice('No footnote issues found - numbering is sequential and all footnotes are referenced');
-				return;
-			}
+	formatFootnoteExport(rows: FootnoteExportRow[], format: FootnoteExportFormat): string {
+		if (format === 'json') {
+			return JSON.stringify(rows, null, 2);
+		}
 
-			// Show enhanced confirmation modal
-			new EnhancedRenumberConfirmationModal(
-				this.app,
-				this,
-				gaps,
-				unreferencedFootnotes,
-				isOutOfOrder,
-				(options: RenumberOptions) => {
-					this.performEnhancedRenumbering(activeEditor!, footnotes, options);
-				}
-			).open();
+		const header = ['Label', 'Content', 'Reference lines', 'Section', 'Status'];
+		const cells = rows.map(row => [row.label, row.content, row.referenceLines.join('; '), row.sections.join('; '), row.status]);
 
-		} catch (error) {
-			this.debug('Error in renumberFootnotes:', error);
-			new Notice('Error accessing document: ' + error.message);
+		if (format === 'csv') {
+			const escapeCsv = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+			return [header, ...cells].map(line => line.map(escapeCsv).join(',')).join('\n');
 		}
+
+		const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+		return [
+			`| ${header.join(' | ')} |`,
+			`| ${header.map(() => '---').join(' | ')} |`,
+			...cells.map(line => `| ${line.map(escapeCell).join(' | ')} |`)
+		].join('\n');
 	}
 
-	private sortDefinitionsInPlace(content: string): string {
-		const definitionRegex = /^\[\^([\w-]+)\]:\s*(.*)$/gm;
-		const definitions: Array<{ number: string; text: string; startPos: number; endPos: number }> = [];
-		let match;
+	// Adds new numbered definitions among definitions collected in one place so they stay sorted: each goes
+	// after the highest lower label, or before the lowest label. `definitions` carry their labels after any
+	// relabelling; call this before relabelling them, as an insertion must precede edits at its offset.
+	// Returns the new definitions that have no numbered definition to go next to.
+	private slotDefinitionsInBatch(
+		batch: EditBatch,
+		definitions: Array < { startPos: number, endPos: number, number: string } > ,
+		newDefinitions: Array < { text: string, number: string, anchor: number } > ,
+		chapterLevel: number | null
+	): Array < { text: string, number: string, anchor: number } > {
+		const numbered = definitions
+			.filter(definition => this.parseSchemeLabel(definition.number, chapterLevel) !== null)
+			.sort((a, b) => this.compareFootnoteLabels(a.number, b.number));
+		const unplaced: Array < { text: string, number: string, anchor: number } > = [];
+
+		[...newDefinitions].sort((a, b) => this.compareFootnoteLabels(a.number, b.number)).forEach(newDefinition => {
+			const lower = numbered.filter(definition => this.compareFootnoteLabels(definition.number, newDefinition.number) < 0);
+			const higher = numbered.find(definition => this.compareFootnoteLabels(definition.number, newDefinition.number) > 0);
+			if (lower.length > 0) {
+				batch.insert(lower[lower.length - 1].endPos, '\n' + newDefinition.text);
+			} else if (higher) {
+				batch.insert(higher.startPos, newDefinition.text + '\n');
+			} else {
+				unplaced.push(newDefinition);
+			}
+		});
+		return unplaced;
+	}
 
-		while ((match = definitionRegex.exec(content)) !== null) {
-			definitions.push({
-				number: match[1],
-				text: match[0],
-				startPos: match.index,
-				endPos: match.index + match[0].length
-			});
-		}
+	// Replaces each numbered definition slot with the definition that belongs there once sorted by number,
+	// so definitions end up in sequential order without moving the surrounding text.
+	// Named labels have no numeric order and are written back in place.
+	private sortDefinitionsInBatch(
+		batch: EditBatch,
+		definitions: Array < { startPos: number, endPos: number, text: string, number: string } > ,
+		chapterLevel: number | null
+	) {
+		const isNumeric = (definition: { number: string }) => this.parseSchemeLabel(definition.number, chapterLevel) !== null;
+		const slots = definitions.filter(isNumeric).sort((a, b) => a.startPos - b.startPos);
+		const sorted = [...slots].sort((a, b) => this.compareFootnoteLabels(a.number, b.number));
 
-		if (definitions.length <= 1) return content;
+		slots.forEach((slot, i) => {
+			batch.replace(slot.startPos, slot.endPos, sorted[i].text);
+		});
+		definitions.filter(definition => !isNumeric(definition)).forEach(definition => {
+			batch.replace(definition.startPos, definition.endPos, definition.text);
+		});
+	}
 
-		const alreadySorted = definitions.every((def, i) =>
-			i === 0 || parseInt(def.number) > parseInt(definitions[i - 1].number)
-		);
-		if (alreadySorted) return content;
+	// Text of a definition with its own label and the references it cites mapped through `relabel`,
+	// for edits that rewrite or move the whole definition
+	private relabelDefinitionText(definition: FootnoteDefinition, references: FootnoteReference[], relabel: (label: string) => string): string {
+		const labelLength = `[^${definition.number}]`.length;
+		let text = definition.fullMatch;
+		references
+			.filter(ref => ref.startPos >= definition.startPos + labelLength && ref.endPos <= definition.endPos)
+			.sort((a, b) => b.startPos - a.startPos)
+			.forEach(ref => {
+				text = text.substring(0, ref.startPos - definition.startPos) + `[^${relabel(ref.number)}]` + text.substring(ref.endPos - definition.startPos);
+			});
+		return `[^${relabel(definition.number)}]` + text.substring(labelLength);
+	}
 
-		const sorted = [...definitions].sort((a, b) => parseInt(a.number) - parseInt(b.number));
+	// Labels renumbering treats as numbers; anything else, such as `2a` or `smith2020`, is a named label
+	isNumericLabel(label: string): boolean {
+		return /^\d+$/.test(label);
+	}
 
-		// Swap text at each position working backwards to preserve indices
-		for (let i = definitions.length - 1; i >= 0; i--) {
-			const pos = definitions[i];
-			content = content.substring(0, pos.startPos) + sorted[i].text + content.substring(pos.endPos);
+	// Builds a readable label from the first words of a footnote, e.g. "Smith, 2020. Title" -> "smith-2020-title"
+	generateFootnoteSlug(content: string, takenLabels: string[]): string {
+		const words = content
+			.toLowerCase()
+			.replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+			.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+			.match(/[a-z0-9]+/g) || [];
+		let base = words.slice(0, 3).join('-').substring(0, 30).replace(/-+$/, '') || 'note';
+		// A purely numeric slug would be renumbered again on the next run
+		if (this.isNumericLabel(base)) {
+			base = `note-${base}`;
 		}
 
-		return content;
+		let slug = base;
+		let suffix = 2;
+		while (takenLabels.includes(slug)) {
+			slug = `${base}-${suffix++}`;
+		}
+		return slug;
 	}
 
-	private performEnhancedRenumbering(editor: Editor, footnotes: FootnoteData[], options: RenumberOptions) {
-		let content = editor.getValue();
-		let processedFootnotes = [...footnotes];
+	// Computes every edit a renumbering with these options would make without touching the editor,
+	// so the confirmation dialog can preview exactly what performEnhancedRenumbering will apply.
+	// Footnotes in `merges` are first merged into the label they map to, in the same edit.
+	planRenumbering(content: string, options: RenumberOptions, merges = new Map < string, string > ()): RenumberPlan {
+		const footnotes = this.extractFootnotes(content);
+		const chapterLevel = options.chapterLevel;
+		const batch = new EditBatch(content);
+		const labelChanges: Array < { oldLabel: string, newLabel: string } > = [];
+		let deletedFootnotes: FootnoteData[] = [];
+
+		// Step 0: Merged footnotes lose their definitions and their survivors take over their references
+		const mergedFootnotes = footnotes.filter(f => merges.has(f.number));
+		mergedFootnotes.forEach(footnote => {
+			[footnote.definition, ...(footnote.duplicateDefinitions || [])].forEach(definition => {
+				batch.deleteDefinition(definition);
+			});
+		});
+		let processedFootnotes = footnotes.filter(f => !merges.has(f.number)).map(footnote => {
+			const merged = mergedFootnotes.filter(m => merges.get(m.number) === footnote.number);
+			if (merged.length === 0) return footnote;
+			return {
+				...footnote,
+				references: footnote.references.concat(...merged.map(m => m.references)).sort((a, b) => a.startPos - b.startPos)
+			};
+		});
 
 		// Step 1: Remove unreferenced footnotes if requested
 		if (options.removeUnreferenced) {
-			const unreferencedFootnotes = processedFootnotes.filter(f => f.references.length === 0);
-
-			// Sort by position (descending) to maintain positions during deletion
-			const sortedForDeletion = unreferencedFootnotes.sort((a, b) => b.definition.startPos - a.definition.startPos);
-
-			// Remove unreferenced footnote definitions
-			sortedForDeletion.forEach(footnote => {
-				const before = content.substring(0, footnote.definition.startPos);
-				const after = content.substring(footnote.definition.endPos);
-				content = before + after;
-
-				// Adjust positions of remaining footnotes
-				const positionChange = footnote.definition.endPos - footnote.definition.startPos;
-				processedFootnotes.forEach(remaining => {
-					if (remaining.definition.startPos > footnote.definition.startPos) {
-						remaining.definition.startPos -= positionChange;
-						remaining.definition.endPos -= positionChange;
-					}
-					remaining.references.forEach(ref => {
-						if (ref.startPos > footnote.definition.startPos) {
-							ref.startPos -= positionChange;
-							ref.endPos -= positionChange;
-						}
-					});
+			deletedFootnotes = processedFootnotes.filter(f => f.references.length === 0);
+			deletedFootnotes.forEach(footnote => {
+				[footnote.definition, ...(footnote.duplicateDefinitions || [])].forEach(definition => {
+					batch.deleteDefinition(definition);
 				});
 			});
 
 			// Remove unreferenced footnotes from our working set
 			processedFootnotes = processedFootnotes.filter(f => f.references.length > 0);
-
-			// Update the content for further processing
-			editor.setValue(content);
-			content = editor.getValue();
-
-			// Re-extract footnotes to get accurate positions after deletion
-			processedFootnotes = this.extractFootnotes(content);
 		}
 
-		// Step 2: Fix gaps or reorder by position if requested (same algorithm)
-		if ((options.fixGaps || options.reorderByPosition) && processedFootnotes.length > 0) {
+		// Step 2: Relabel footnotes. Numeric labels are renumbered when fixing gaps or reordering;
+		// named labels only change when a conversion mode is selected.
+		const isNumeric = (label: string) => this.isNumericLabel(label);
+		const newLabels = new Map < string,
+			string > ();
+
+		if (options.labelMode === 'numbers-to-slugs') {
+			const takenLabels = footnotes.map(f => f.number).filter(label => !isNumeric(label));
+			processedFootnotes.filter(f => isNumeric(f.number)).forEach(footnote => {
+				const slug = this.generateFootnoteSlug(footnote.content, takenLabels);
+				takenLabels.push(slug);
+				newLabels.set(footnote.number, slug);
+			});
+		} else if (options.fixGaps || options.reorderByPosition || options.labelMode === 'named-to-numbers') {
+			// Chapter-prefixed labels such as [^2-5] count as numbers under chapter numbering, including
+			// when the note switches back to continuous numbering; otherwise they are named
+			const isNumbered = (label: string) => this.parseSchemeLabel(label, chapterLevel ?? this.getChapterLevel()) !== null;
+			const renumbered = options.labelMode === 'named-to-numbers' ?
+				processedFootnotes :
+				processedFootnotes.filter(f => isNumbered(f.number));
+
 			// Sort footnotes by their first reference position to maintain order
-			const sortedFootnotes = [...processedFootnotes].sort((a, b) => {
+			const sortedFootnotes = [...renumbered].sort((a, b) => {
 				const aFirstRef = a.references[0];
 				const bFirstRef = b.references[0];
 				if (!aFirstRef || !bFirstRef) return 0;
 				return aFirstRef.startPos - bFirstRef.startPos;
 			});
 
-			// Create mapping from old numbers to new numbers
-			const numberMapping = new Map < string,
-				string > ();
-			sortedFootnotes.forEach((footnote, index) => {
-				numberMapping.set(footnote.number, (index + 1).toString());
-			});
+			// Create mapping from old numbers to new numbers, counting from 1 again in each chapter
+			if (chapterLevel !== null) {
+				const chapterHeadings = this.getChapterHeadings(content, chapterLevel);
+				const chapterCounts = new Map < number,
+					number > ();
+				sortedFootnotes.forEach(footnote => {
+					const chapter = this.getChapterOf(chapterHeadings, footnote.references[0]?.line ?? footnote.definition.line);
+					const number = (chapterCounts.get(chapter) || 0) + 1;
+					chapterCounts.set(chapter, number);
+					newLabels.set(footnote.number, this.formatChapterLabel(chapter, number));
+				});
+			} else {
+				const startNumber = options.startNumber ?? 1;
+				sortedFootnotes.forEach((footnote, index) => {
+					newLabels.set(footnote.number, (index + startNumber).toString());
+				});
+			}
+		}
 
-			// Replace all references and definitions (work backwards to maintain positions)
-			const allReplacements: Array < {
-				startPos: number,
-				endPos: number,
-				newText: string
-			} > = [];
+		// Label each footnote ends up with, following merges
+		const finalLabel = (label: string) => {
+			const survivor = merges.get(label) ?? label;
+			return newLabels.get(survivor) ?? survivor;
+		};
+		const references = new FootnoteParser(content).getReferences();
+		const renamedDefinitions: Array < {
+			startPos: number,
+			endPos: number,
+			text: string,
+			number: string
+		} > = [];
+		// References cited inside a definition that is rewritten travel in its new text
+		const isInRenamedDefinition = (ref: FootnoteReference) => renamedDefinitions.some(d => ref.startPos >= d.startPos && ref.endPos <= d.endPos);
 
-			// Collect all replacements
+		if (newLabels.size > 0) {
 			processedFootnotes.forEach(footnote => {
-				const newNumber = numberMapping.get(footnote.number);
-				if (!newNumber) return;
-
-				// Add definition replacement
-				allReplacements.push({
-					startPos: footnote.definition.startPos,
-					endPos: footnote.definition.endPos,
-					newText: `[^${newNumber}]: ${footnote.definition.content}`
-				});
+				const newLabel = newLabels.get(footnote.number);
+				if (!newLabel) return;
 
-				// Add reference replacements
-				footnote.references.forEach(ref => {
-					allReplacements.push({
-						startPos: ref.startPos,
-						endPos: ref.endPos,
-						newText: `[^${newNumber}]`
+				if (newLabel !== footnote.number) {
+					labelChanges.push({
+						oldLabel: footnote.number,
+						newLabel
 					});
+				}
+
+				// Relabel the definition, keeping continuation lines untouched.
+				// Duplicate definitions follow the label so they stay attached to this footnote.
+				[footnote.definition, ...(footnote.duplicateDefinitions || [])].forEach(definition => {
+					renamedDefinitions.push({
+						startPos: definition.startPos,
+						endPos: definition.endPos,
+						text: this.relabelDefinitionText(definition, references, finalLabel),
+						number: newLabel
+					});
+				});
+			});
+
+			processedFootnotes.forEach(footnote => {
+				const newLabel = newLabels.get(footnote.number);
+				if (!newLabel) return;
+				footnote.references.filter(ref => !isInRenamedDefinition(ref)).forEach(ref => {
+					batch.replace(ref.startPos, ref.endPos, `[^${newLabel}]`);
 				});
 			});
 
-			// Sort replacements by position (descending) to maintain positions
-			allReplacements.sort((a, b) => b.startPos - a.startPos);
+			// Sort numeric definitions into sequential order; named ones keep their place
+			this.sortDefinitionsInBatch(batch, renamedDefinitions, chapterLevel);
+		}
 
-			// Apply replacements
-			allReplacements.forEach(replacement => {
-				const before = content.substring(0, replacement.startPos);
-				const after = content.substring(replacement.endPos);
-				content = before + replacement.newText + after;
+		// Survivors that keep their label still need the references merged into them
+		processedFootnotes.filter(f => !newLabels.has(f.number)).forEach(footnote => {
+			footnote.references.filter(ref => ref.number !== footnote.number && !isInRenamedDefinition(ref)).forEach(ref => {
+				batch.replace(ref.startPos, ref.endPos, `[^${footnote.number}]`);
 			});
+		});
+
+		labelChanges.sort((a, b) => this.compareFootnoteLabels(a.newLabel, b.newLabel) || (parseInt(a.newLabel) || 0) - (parseInt(b.newLabel) || 0));
 
-			// Sort definitions into sequential order by number
-			content = this.sortDefinitionsInPlace(content);
+		return {
+			options,
+			labelChanges,
+			deletedFootnotes,
+			lineChanges: batch.getLineChanges(),
+			batch
+		};
+	}
 
-			editor.setValue(content);
+	private performEnhancedRenumbering(editor: Editor, plan: RenumberPlan) {
+		if (!plan.batch.apply(editor)) {
+			new Notice('The document changed while the dialog was open. Please run renumbering again.');
+			return;
 		}
 
 		// Provide feedback
 		let message = 'Footnote processing completed:';
 		const actions: string[] = [];
 
-		if (options.removeUnreferenced) {
-			const unreferencedCount = footnotes.filter(f => f.references.length === 0).length;
-			actions.push(`${unreferencedCount} unreferenced footnote(s) removed`);
+		if (plan.options.removeUnreferenced) {
+			actions.push(`${plan.deletedFootnotes.length} unreferenced footnote(s) removed`);
 		}
 
-		if (options.fixGaps) {
+		if (plan.options.fixGaps) {
 			actions.push('footnote numbering gaps fixed');
 		}
 
-		if (options.reorderByPosition) {
+		if (plan.options.reorderByPosition) {
 			actions.push('footnotes reordered by text position');
 		}
 
@@ -3306,6 +8115,8 @@ export default class FootnotesManagerPlugin extends Plugin {
 	}
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Rules added in later versions default to enabled
+		this.settings.lintRules = Object.assign({}, DEFAULT_SETTINGS.lintRules, this.settings.lintRules);
 	}
 
 	async saveSettings() {
@@ -3487,6 +8298,148 @@ class FootnotesManagerSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		containerEl.createEl('h3', {
+			text: 'New definitions'
+		});
+
+		new Setting(containerEl)
+			.setName('Definition placement')
+			.setDesc('Where commands that create footnotes put the new definition')
+			.addDropdown(dropdown => dropdown
+				.addOption('end-of-document', 'End of document')
+				.addOption('end-of-section', 'End of the current heading section')
+				.addOption('after-paragraph', 'After the current paragraph')
+				.addOption('notes-heading', 'Under a notes heading')
+				.setValue(this.plugin.settings.definitionPlacement)
+				.onChange(async (value) => {
+					this.plugin.settings.definitionPlacement = value as DefinitionPlacement;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Insert in sequence')
+			.setDesc('Number a new footnote by its position in the text and shift all later numbered footnotes up by one, instead of using the lowest free number')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.insertInSequence)
+				.onChange(async (value) => {
+					this.plugin.settings.insertInSequence = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Unwrapped footnote style')
+			.setDesc('How footnote text is set off when a footnote is unwrapped into the body text')
+			.addDropdown(dropdown => dropdown
+				.addOption('parentheses', 'Parentheses (text)')
+				.addOption('em-dash', 'Em dash pair — text —')
+				.addOption('none', 'No wrapper')
+				.setValue(this.plugin.settings.unwrapWrapper)
+				.onChange(async (value) => {
+					this.plugin.settings.unwrapWrapper = value as UnwrapWrapper;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {
+			text: 'Chapter numbering'
+		});
+
+		new Setting(containerEl)
+			.setName('Restart numbering per chapter')
+			.setDesc('Number footnotes from 1 again in each chapter with chapter-prefixed labels such as [^2-5]. New footnotes take the next free number in their chapter, or with "Insert in sequence" the number matching their position in it; footnotes before the first chapter heading keep plain numbers.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.chapterNumbering)
+				.onChange(async (value) => {
+					this.plugin.settings.chapterNumbering = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshFootnotesView();
+				}));
+
+		new Setting(containerEl)
+			.setName('Chapter heading level')
+			.setDesc('Headings of this level start a new chapter')
+			.addDropdown(dropdown => {
+				[1, 2, 3, 4, 5, 6].forEach(level => dropdown.addOption(level.toString(), `H${level}`));
+				dropdown
+					.setValue(this.plugin.settings.chapterHeadingLevel.toString())
+					.onChange(async (value) => {
+						this.plugin.settings.chapterHeadingLevel = parseInt(value);
+						await this.plugin.saveSettings();
+						this.plugin.refreshFootnotesView();
+					});
+			});
+
+		containerEl.createEl('h3', {
+			text: 'Manuscript'
+		});
+
+		new Setting(containerEl)
+			.setName('Manuscript index note')
+			.setDesc('Note whose links list the files of a manuscript in order, e.g. "Book/Index.md". Used to number footnotes continuously across the files and by the manuscript mode of the panel.')
+			.addText(text => text
+				.setPlaceholder('Book/Index.md')
+				.setValue(this.plugin.settings.manuscriptIndex)
+				.onChange(async (value) => {
+					this.plugin.settings.manuscriptIndex = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {
+			text: 'Notes headings'
+		});
+
+		new Setting(containerEl)
+			.setName('Notes heading')
+			.setDesc('Heading that collects definitions at the end of the note, used by the "Under a notes heading" placement and the endnote conversion. It is created if missing.')
+			.addText(text => text
+				.setPlaceholder('## Notes')
+				.setValue(this.plugin.settings.notesHeading)
+				.onChange(async (value) => {
+					this.plugin.settings.notesHeading = value.trim() || DEFAULT_SETTINGS.notesHeading;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Separator before notes heading')
+			.setDesc('Add a horizontal rule (---) above the notes heading when creating it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.notesHeadingSeparator)
+				.onChange(async (value) => {
+					this.plugin.settings.notesHeadingSeparator = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Section notes heading')
+			.setDesc('Subheading added at the end of each H1/H2 section when converting footnotes to per-section endnotes')
+			.addText(text => text
+				.setPlaceholder('### Notes')
+				.setValue(this.plugin.settings.sectionNotesHeading)
+				.onChange(async (value) => {
+					this.plugin.settings.sectionNotesHeading = value.trim() || DEFAULT_SETTINGS.sectionNotesHeading;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {
+			text: 'Problems'
+		});
+		containerEl.createEl('p', {
+			text: 'Rules checked by the linter. Findings are listed in the Problems section of the footnotes panel.',
+			cls: 'setting-item-description'
+		});
+
+		FOOTNOTE_LINT_RULES.forEach(rule => {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(rule.description)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.lintRules[rule.id])
+					.onChange(async (value) => {
+						this.plugin.settings.lintRules[rule.id] = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshFootnotesView();
+					}));
+		});
+
 		// Usage Instructions
 		const instructionsEl = containerEl.createEl('div', {
 			cls: 'footnotes-instructions'